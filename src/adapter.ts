@@ -0,0 +1,39 @@
+import fs from 'node:fs/promises';
+import type { Dirent, Stats } from 'node:fs';
+
+/**
+ * An open directory, iterated once and then closed
+ */
+export interface DirectoryHandle extends AsyncIterable<Dirent> {
+  close(): Promise<void>;
+}
+
+/**
+ * The filesystem operations the walker performs.
+ *
+ * Implementations return objects shaped like `fs.Dirent` and `fs.Stats`,
+ * and should reject with Node-style `code`s ('ENOENT', 'EACCES', ...) so
+ * errors are classified the same way as with the real filesystem.
+ */
+export interface FileSystemAdapter {
+  opendir(dirPath: string): Promise<DirectoryHandle>;
+  // Follows symlinks, like fs.stat
+  stat(filePath: string): Promise<Stats>;
+  // Describes a symlink itself, like fs.lstat
+  lstat(filePath: string): Promise<Stats>;
+  readlink(filePath: string): Promise<string>;
+  realpath(filePath: string): Promise<string>;
+}
+
+/**
+ * Default adapter backed by `node:fs/promises`
+ */
+export const nodeFileSystem: FileSystemAdapter = {
+  // opendir returns an AsyncIterable Dir object.
+  // It buffers very little memory compared to readdir.
+  opendir: dirPath => fs.opendir(dirPath),
+  stat: filePath => fs.stat(filePath),
+  lstat: filePath => fs.lstat(filePath),
+  readlink: filePath => fs.readlink(filePath),
+  realpath: filePath => fs.realpath(filePath)
+};
@@ -1,164 +1,1084 @@
-import fs from 'node:fs/promises';
-import type { Dirent } from 'node:fs';
-import { joinPath, match } from './utils.js';
-import type { WalkerOptions, WalkerEntry } from './options.js';
+import type { Dirent, Stats } from 'node:fs';
+import path from 'node:path';
+import { joinPath, match, matchesEntryType, toPosixPath } from './utils.js';
+import { AbortError, SymlinkLoopError, wrapError } from './errors.js';
+import type { FilterContext } from './utils.js';
+import type { FStreamWalkError } from './errors.js';
+import type { DirectoryHandle } from './adapter.js';
+import type {
+  WalkerOptions,
+  WalkerEntry,
+  DirectorySummary,
+  ErrorContext,
+  WalkStatus,
+  WalkLimit,
+  WalkCursor,
+  CursorDirectory,
+  CursorFrame
+} from './options.js';
 
 /**
- * Recursive Directory Walker Generator
+ * A directory waiting to be opened by the walker
+ */
+export interface PendingDirectory {
+  root: string;
+  path: string;
+  relativePath: string;
+  absolutePath: string;
+  depth: number;
+  // Device of the root directory, tracked with `oneFileSystem`
+  device?: number;
+  // Real paths of the directories above it, tracked with `followSymlinks`
+  ancestors?: string[];
+  prefetch?: Promise<OpenedDirectory>;
+}
+
+/**
+ * Result of reading a directory from disk, before cycle checks are applied
+ */
+interface OpenedDirectory {
+  handle: DirectoryHandle;
+  entries: AsyncIterator<Dirent> | Iterator<Dirent>;
+  realPath: string | null;
+  realPathError: unknown;
+  device?: number;
+  // Entries skipped when resuming from a cursor, and the last of them if it was found
+  position: number;
+  lastEntry: Dirent | null;
+}
+
+/**
+ * A directory entry whose type, filters and stats have been resolved
+ */
+export interface ResolvedEntry {
+  name: string;
+  entry: WalkerEntry | null;
+  child: PendingDirectory | null;
+  // `dev:ino` of a hard-linked file, tracked with `dedupeHardLinks`
+  inode?: string;
+}
+
+/**
+ * What resolving an entry needs from the directory it was read from
+ */
+export interface EntryParent extends PendingDirectory {
+  summary: DirectorySummary;
+  lineage?: string[];
+}
+
+/**
+ * I/O requested while resolving an entry, performed by `walk()` or `walkSync()`
+ */
+export type EntryStep =
+  | { op: 'stat' | 'lstat' | 'readlink'; path: string }
+  | { op: 'filter'; context: FilterContext };
+
+/**
+ * An opened directory whose entries are being consumed
+ */
+interface DirectoryFrame extends PendingDirectory {
+  handle: DirectoryHandle;
+  entries: AsyncIterator<Dirent> | Iterator<Dirent>;
+  buffer: ResolvedEntry[];
+  // Entry for this directory itself, held back until it is left ('post' order)
+  entry: WalkerEntry | null;
+  summary: DirectorySummary;
+  // Entries consumed so far, recorded by checkpoints
+  position: number;
+  lastName: string | null;
+  // Ancestors of its subdirectories: its own ancestors and its real path
+  lineage?: string[];
+}
+
+/**
+ * What the directory hooks are told about a directory
+ */
+type DirectoryLifecycle = Pick<DirectoryFrame, 'path' | 'depth' | 'summary'>;
+
+/**
+ * What a walk has spent against `maxEntries`, `maxDirectories` and `timeLimitMs`
+ */
+export interface WalkBudget {
+  entries: number;
+  directories: number;
+  deadline: number;
+}
+
+/**
+ * Thrown internally to unwind the walk once an error has been handled.
+ * Carries the error to rethrow, or null to end the walk quietly.
+ */
+export class WalkInterrupt {
+  constructor(readonly error: unknown) {}
+}
+
+/**
+ * Directory Walker Generator
+ *
+ * Traversal is iterative: open directories live on an explicit stack.
+ * Depth-first descends into a subdirectory as soon as it is found, while
+ * breadth-first queues it until every shallower directory has been read.
+ *
+ * Entries are read in batches of `concurrency`; the I/O for a batch runs in
+ * parallel, but results are always yielded in directory order.
+ *
+ * Each loop iteration yields at most one entry, at the end of the iteration,
+ * after any directory it finished and before any directory it entered.
+ *
+ * Several roots share one queue, so they are walked in the given order
+ * (interleaved level by level with 'bfs') under the same options.
+ *
+ * `status.state` records how the walk ended once the generator finishes.
+ * `status.checkpoint()` snapshots the stack and queue; it is consistent with
+ * the entries yielded so far whenever the generator is suspended.
  */
 export async function* walk(
-  dirPath: string,
+  roots: string[],
   options: WalkerOptions,
-  currentDepth = 0,
-  visited: Set<string> = new Set()
+  status: WalkStatus = { state: 'running', limit: null, checkpoint: () => startCursor(roots) }
 ): AsyncGenerator<WalkerEntry, void, undefined> {
-  // 1. Abort Check
-  if (options.signal?.aborted) return;
-
-  // 2. Depth Check
-  if (currentDepth > options.maxDepth) return;
-
-  // 3. Symlink Cycle Protection (only if following symlinks)
-  if (options.followSymlinks) {
-    try {
-      const realPath = await fs.realpath(dirPath);
-      if (visited.has(realPath)) return;
-      visited.add(realPath);
-    } catch (err) {
-      // BUG-002 fixed: If we can't resolve realpath, add original path to visited
-      // to prevent potential infinite loops with circular symlinks
-      if (visited.has(dirPath)) return;
-      visited.add(dirPath);
+  const start = options.resumeFrom ?? startCursor(roots);
+  const budget = createBudget(options);
+  let limit: WalkLimit | null = null;
+  // Directories already traversed, shared by every root
+  const visited = options.followSymlinks || roots.length > 1 ? new Set(start.visited) : null;
+  const stack: DirectoryFrame[] = [];
+  const queue: PendingDirectory[] = start.queue.map(dir => ({ ...dir }));
+  const prefetched = new Set<PendingDirectory>();
+  const inodes = new Set(start.inodes);
 
-      // If we can't resolve path, proceed cautiously or skip based on policy
-      if (!options.suppressErrors) throw err;
-    }
-  }
+  status.checkpoint = () => createCursor(roots, stack, queue, visited, inodes);
 
-  let dirHandle: Awaited<ReturnType<typeof fs.opendir>> | null = null;
   try {
-    // opendir returns an AsyncIterable Dir object.
-    // It buffers very little memory compared to readdir.
-    dirHandle = await fs.opendir(dirPath);
-  } catch (err) {
-    if (!options.suppressErrors) throw err;
-    return;
-  }
+    // Reopen the directories that were being read when the cursor was taken
+    await restoreStack(start.stack, options, stack);
 
-  try {
-    // BUG-001 fixed: Only collect entries into array if sorting is needed
-    // This saves memory for large directories when sorting is disabled
-    let entries: Dirent[] | AsyncIterable<Dirent>;
-    if (options.sort) {
-      // Collect all entries for sorting
-      const entriesArray: Dirent[] = [];
-      for await (const dirent of dirHandle) {
-        if (options.signal?.aborted) break;
-        entriesArray.push(dirent);
+    while (stack.length > 0 || queue.length > 0) {
+      // 1. Abort Check
+      if (options.signal?.aborted) {
+        status.state = 'aborted';
+        if (options.throwOnAbort) throw createAbortError(options.signal);
+        return;
       }
-      sortEntries(entriesArray, options.sort);
-      entries = entriesArray;
-    } else {
-      // For non-sorted iteration, create an async iterable wrapper
-      entries = {
-        [Symbol.asyncIterator]: () => dirHandle![Symbol.asyncIterator]()
-      };
-    }
 
-    // Process entries (sorted array or streaming)
-    for await (const dirent of entries) {
-      if (options.signal?.aborted) break;
+      // Budget Check: stopping before the step that would exceed a limit
+      // leaves the cursor there, so checkpoint() can continue the walk
+      limit = limit ?? (Date.now() > budget.deadline ? 'timeLimitMs' : null);
+      if (limit) {
+        status.state = 'limited';
+        status.limit = limit;
+        return;
+      }
 
-      const entryPath = joinPath(dirPath, dirent.name);
+      let ready: WalkerEntry | null = null;
+      let entered: DirectoryFrame | null = null;
+      let left: DirectoryFrame | null = null;
 
-      // Determine if it's a directory (handle symlinks if needed)
-      let isDirectory = dirent.isDirectory();
+      // 2. Open the next queued directory once the stack has drained
+      if (stack.length === 0) {
+        limit = spendBudget(budget, 0, queue[0].depth <= options.maxDepth ? 1 : 0, options);
+        if (limit) continue;
 
-      if (dirent.isSymbolicLink() && options.followSymlinks) {
-        try {
-          const stats = await fs.stat(entryPath);
-          isDirectory = stats.isDirectory();
-        } catch {
-          isDirectory = false; // Broken link
+        const next = queue.shift()!;
+        for (const dir of queue.slice(0, options.concurrency - 1)) {
+          prefetchDirectory(dir, options, prefetched);
         }
+
+        entered = await enterDirectory(next, options, visited, prefetched);
+        if (entered) stack.push(entered);
+        notifyDirectory(null, entered, options);
+        continue;
       }
 
-      const isIncluded = applyFilters(dirent.name, options);
+      const frame = stack[stack.length - 1];
 
-      if (isDirectory) {
-        // If user wants directories yielded
-        if (options.yieldDirectories && isIncluded) {
-          const entry: WalkerEntry = { path: entryPath, dirent, depth: currentDepth };
+      try {
+        // 3. Read and resolve the next batch of entries
+        if (frame.buffer.length === 0) {
+          const dirents = await readBatch(frame, options.concurrency);
+          frame.summary.childCount += dirents.length;
+          if (dirents.length === 0) {
+            // Directory finished: release its post-order entry
+            stack.pop();
+            await closeDirectory(frame.handle);
+            left = frame;
+            ready = frame.entry;
+          } else {
+            frame.buffer = await Promise.all(
+              dirents.map(dirent => resolveEntry(frame, dirent, options))
+            );
 
-          // Add stats if requested
-          if (options.withStats) {
-            try {
-              entry.stats = await fs.stat(entryPath);
-            } catch (e) {
-              if (!options.suppressErrors) throw e;
+            if (options.concurrency > 1 && options.strategy === 'dfs') {
+              for (const { child } of frame.buffer) {
+                if (child) prefetchDirectory(child, options, prefetched);
+              }
             }
+            continue;
           }
+        } else {
+          const { name, entry, child, inode } = frame.buffer[0];
+          const descends = child !== null && options.strategy === 'dfs' && child.depth <= options.maxDepth;
+          const yields = entry !== null && !isSkippedHardLink(inode, inodes, options);
+          limit = spendBudget(budget, yields ? 1 : 0, descends ? 1 : 0, options);
+          if (limit) continue;
 
-          yield entry;
+          frame.buffer.shift();
+          frame.position++;
+          frame.lastName = name;
+          const isPostOrder = child !== null && options.directoryOrder === 'post';
+          ready = isPostOrder ? null : entry;
 
-          // Progress callback
-          if (options.onProgress) {
-            options.onProgress(entry);
+          // Hard links: checked in walk order so the first path always wins
+          if (ready && options.dedupeHardLinks) {
+            ready = checkHardLink(ready, inode, inodes, options);
           }
-        }
-        // Recurse
-        yield* walk(entryPath, options, currentDepth + 1, visited);
-      } else {
-        // It is a file
-        if (isIncluded) {
-          const entry: WalkerEntry = { path: entryPath, dirent, depth: currentDepth };
-
-          // Add stats if requested
-          if (options.withStats) {
-            try {
-              entry.stats = await fs.stat(entryPath);
-            } catch (e) {
-              if (!options.suppressErrors) throw e;
+
+          if (child) {
+            // Descend now (dfs) or once shallower levels are done (bfs)
+            if (options.strategy === 'bfs') {
+              queue.push(child);
+            } else {
+              entered = await enterDirectory(child, options, visited, prefetched);
+              if (entered) {
+                entered.entry = isPostOrder ? entry : null;
+                stack.push(entered);
+              } else if (isPostOrder) {
+                ready = entry;
+              }
             }
           }
+        }
+      } catch (err) {
+        if (err instanceof WalkInterrupt) throw err;
+        const error = handleError(err, { path: frame.path, depth: frame.depth, operation: 'readdir' }, options);
+
+        // Give up on the rest of this directory and carry on with its parent
+        stack.pop();
+        await closeDirectory(frame.handle);
+        for (const { child } of frame.buffer) {
+          if (child && prefetched.delete(child)) await discardPrefetch(child);
+        }
+        frame.summary.errors.push(error);
+        left = frame;
+        ready = frame.entry;
+      }
 
-          yield entry;
+      notifyDirectory(left, null, options);
 
-          // Progress callback
-          if (options.onProgress) {
-            options.onProgress(entry);
-          }
+      if (ready) {
+        yield ready;
+
+        // Progress callback
+        if (options.onProgress) {
+          options.onProgress(ready);
         }
       }
+
+      notifyDirectory(null, entered, options);
     }
+
+    status.state = 'completed';
   } catch (err) {
-    if (!options.suppressErrors) throw err;
+    if (err instanceof WalkInterrupt && err.error === null) {
+      // onError chose to abort: end the walk quietly
+      status.state = 'aborted';
+      return;
+    }
+
+    if (status.state === 'running') status.state = 'failed';
+    throw err instanceof WalkInterrupt ? err.error : err;
   } finally {
-    // dirHandle closes automatically on loop finish,
-    // but explicitly closing ensures cleanup on breaks/throws.
-    if (dirHandle) {
+    // Still running here means the consumer stopped iterating early
+    if (status.state === 'running') status.state = 'stopped';
+
+    // Explicitly closing ensures cleanup on breaks/throws.
+    for (const frame of stack) {
+      await closeDirectory(frame.handle);
+    }
+    for (const dir of prefetched) {
+      await discardPrefetch(dir);
+    }
+  }
+}
+
+/**
+ * Enters a directory, applying depth, symlink cycle and overlap checks.
+ * Returns null when the directory should not be traversed.
+ */
+async function enterDirectory(
+  dir: PendingDirectory,
+  options: WalkerOptions,
+  visited: Set<string> | null,
+  prefetched: Set<PendingDirectory>
+): Promise<DirectoryFrame | null> {
+  // Depth Check
+  if (dir.depth > options.maxDepth) return null;
+
+  let opened: OpenedDirectory;
+  try {
+    opened = await (dir.prefetch ?? openDirectory(dir, options));
+  } catch (err) {
+    handleError(err, { path: dir.path, depth: dir.depth, operation: 'opendir' }, options);
+    return null;
+  } finally {
+    prefetched.delete(dir);
+  }
+
+  // Symlink Cycle Protection (real paths, if following symlinks) and
+  // overlapping roots protection (resolved paths, if walking several roots).
+  // Checked here rather than while reading so prefetching cannot change
+  // which of two paths to the same directory is traversed.
+  if (visited) {
+    const revisit = markVisited(visited, dir, opened.realPath, options);
+    if (revisit) {
+      await closeDirectory(opened.handle);
+      if (revisit === 'cycle') reportCycle(dir, options);
+      return null;
+    }
+    if (opened.realPathError) {
       try {
-        await dirHandle.close();
-      } catch {
-        // Ignore errors if already closed
+        handleError(opened.realPathError, { path: dir.path, depth: dir.depth, operation: 'realpath' }, options);
+      } catch (err) {
+        await closeDirectory(opened.handle);
+        throw err;
       }
     }
   }
+
+  return createFrame(dir, opened, options);
+}
+
+/**
+ * Builds the frame for a directory that has just been opened
+ */
+function createFrame(dir: PendingDirectory, opened: OpenedDirectory, options: WalkerOptions): DirectoryFrame {
+  return {
+    root: dir.root,
+    path: dir.path,
+    relativePath: dir.relativePath,
+    absolutePath: dir.absolutePath,
+    depth: dir.depth,
+    handle: opened.handle,
+    entries: opened.entries,
+    buffer: [],
+    entry: null,
+    device: dir.device ?? opened.device,
+    summary: { childCount: 0, errors: [], mountPoints: [] },
+    position: opened.position,
+    lastName: opened.lastEntry?.name ?? null,
+    ancestors: dir.ancestors,
+    lineage: lineageOf(dir, opened.realPath, options)
+  };
+}
+
+/**
+ * Reopens the directories of a cursor's stack, each positioned just after
+ * its last consumed entry. Directories that can no longer be opened are
+ * handled like any unreadable directory and left out.
+ */
+async function restoreStack(saved: CursorFrame[], options: WalkerOptions, stack: DirectoryFrame[]): Promise<void> {
+  let parent: DirectoryFrame | null = null;
+  let parentLast: Dirent | null = null;
+
+  for (const savedFrame of saved) {
+    const dir: PendingDirectory = {
+      root: savedFrame.root,
+      path: savedFrame.path,
+      relativePath: savedFrame.relativePath,
+      absolutePath: savedFrame.absolutePath,
+      depth: savedFrame.depth,
+      device: savedFrame.device,
+      ancestors: savedFrame.ancestors
+    };
+
+    let opened: OpenedDirectory;
+    try {
+      opened = await openDirectory(dir, options, savedFrame);
+    } catch (err) {
+      handleError(err, { path: dir.path, depth: dir.depth, operation: 'opendir' }, options);
+      parent = null;
+      continue;
+    }
+
+    const frame = createFrame(dir, opened, options);
+    stack.push(frame);
+
+    // A held-back 'post' entry is rebuilt from the parent's listing
+    if (savedFrame.pendingEntry && parent && parentLast && parent.depth === frame.depth - 1) {
+      frame.entry = (await resolveEntry(parent, parentLast, options)).entry;
+    }
+
+    parent = frame;
+    parentLast = opened.lastEntry;
+  }
+}
+
+/**
+ * Performs the I/O needed to enter a directory: resolving its real path,
+ * opening it and, when sorting, reading its full listing (positioned after
+ * the entries a cursor already consumed, when resuming).
+ */
+async function openDirectory(
+  dir: PendingDirectory,
+  options: WalkerOptions,
+  resume: CursorFrame | null = null
+): Promise<OpenedDirectory> {
+  let realPath: string | null = null;
+  let realPathError: unknown = null;
+
+  if (options.followSymlinks) {
+    try {
+      realPath = await options.fs.realpath(dir.path);
+    } catch (err) {
+      realPathError = err;
+    }
+  }
+
+  const handle = await options.fs.opendir(dir.path);
+
+  // Roots record their device; subdirectories inherit it
+  let device = dir.device;
+  if (options.oneFileSystem && device === undefined) {
+    try {
+      device = (await options.fs.stat(dir.path)).dev;
+    } catch (err) {
+      await closeDirectory(handle);
+      throw err;
+    }
+  }
+
+  if (!options.sort) {
+    return {
+      handle,
+      entries: handle[Symbol.asyncIterator](),
+      realPath,
+      realPathError,
+      device,
+      position: 0,
+      lastEntry: null
+    };
+  }
+
+  // BUG-001 fixed: Only collect entries into array if sorting is needed
+  // This saves memory for large directories when sorting is disabled
+  try {
+    const entries: Dirent[] = [];
+    for await (const dirent of handle) {
+      if (options.signal?.aborted) break;
+      entries.push(dirent);
+    }
+    sortEntries(entries, options.sort);
+
+    const position = resume ? seekEntries(entries, resume, options.sort) : 0;
+    const last = entries[position - 1];
+    return {
+      handle,
+      entries: entries.slice(position).values(),
+      realPath,
+      realPathError,
+      device,
+      position,
+      lastEntry: last && last.name === resume?.lastName ? last : null
+    };
+  } catch (err) {
+    await closeDirectory(handle);
+    throw err;
+  }
+}
+
+/**
+ * Starts reading a directory ahead of time so its I/O overlaps with other work
+ */
+function prefetchDirectory(
+  dir: PendingDirectory,
+  options: WalkerOptions,
+  prefetched: Set<PendingDirectory>
+): void {
+  if (dir.prefetch || dir.depth > options.maxDepth) return;
+
+  dir.prefetch = openDirectory(dir, options);
+  // Errors surface when the directory is entered
+  dir.prefetch.catch(() => {});
+  prefetched.add(dir);
+}
+
+/**
+ * Closes a directory that was prefetched but never entered
+ */
+async function discardPrefetch(dir: PendingDirectory): Promise<void> {
+  try {
+    const opened = await dir.prefetch!;
+    await closeDirectory(opened.handle);
+  } catch {
+    // Nothing was opened
+  }
+}
+
+/**
+ * Records a directory as traversed and tells whether it must be skipped:
+ * 'cycle' when it is one of its own ancestors (a symlink loop), 'seen' when
+ * it was already traversed through another path, or null to enter it.
+ *
+ * With `symlinkPolicy: 'cycle-only'`, directories reached through several
+ * symlinks (diamonds) are entered each time; overlapping roots, and paths
+ * whose real path could not be resolved, are still only walked once.
+ */
+export function markVisited(
+  visited: Set<string>,
+  dir: PendingDirectory,
+  realPath: string | null,
+  options: WalkerOptions
+): 'cycle' | 'seen' | null {
+  // BUG-002 fixed: If we can't resolve realpath, the original path is
+  // tracked instead to prevent infinite loops with circular symlinks
+  const key = options.followSymlinks ? realPath ?? dir.path : dir.absolutePath;
+  if (options.followSymlinks && dir.ancestors?.includes(key)) return 'cycle';
+
+  const seen = visited.has(key);
+  visited.add(key);
+  if (seen && (options.symlinkPolicy === 'dedupe' || realPath === null || dir.depth === 0)) {
+    return 'seen';
+  }
+  return null;
+}
+
+/**
+ * Real paths from the root down to a directory, handed to its subdirectories
+ * as their ancestors when following symlinks
+ */
+export function lineageOf(
+  dir: PendingDirectory,
+  realPath: string | null,
+  options: WalkerOptions
+): string[] | undefined {
+  if (!options.followSymlinks) return undefined;
+  return [...dir.ancestors ?? [], realPath ?? dir.path];
+}
+
+/**
+ * Reports a directory that is its own ancestor as a SymlinkLoopError
+ */
+export function reportCycle(dir: PendingDirectory, options: WalkerOptions): void {
+  handleError(
+    new SymlinkLoopError(`Symlink cycle: ${dir.path}`, dir.path),
+    { path: dir.path, depth: dir.depth, operation: 'realpath' },
+    options
+  );
+}
+
+/**
+ * Applies `dedupeHardLinks` to an entry about to be yielded: returns null
+ * to skip it, or the entry (flagged if requested)
+ */
+export function checkHardLink(
+  entry: WalkerEntry,
+  inode: string | undefined,
+  inodes: Set<string>,
+  options: WalkerOptions
+): WalkerEntry | null {
+  const isDuplicate = inode !== undefined && inodes.has(inode);
+  if (inode !== undefined) inodes.add(inode);
+
+  if (isDuplicate && options.dedupeHardLinks === 'skip') {
+    return null;
+  }
+  if (options.dedupeHardLinks === 'flag' && entry.dirent.isFile()) {
+    entry.isDuplicateInode = isDuplicate;
+  }
+  return entry;
+}
+
+/**
+ * Whether `dedupeHardLinks: 'skip'` will drop a file, without recording it
+ */
+export function isSkippedHardLink(inode: string | undefined, inodes: Set<string>, options: WalkerOptions): boolean {
+  return options.dedupeHardLinks === 'skip' && inode !== undefined && inodes.has(inode);
+}
+
+/**
+ * Starts counting a walk against its limits; the clock starts with the walk
+ */
+export function createBudget(options: WalkerOptions): WalkBudget {
+  return { entries: 0, directories: 0, deadline: Date.now() + options.timeLimitMs };
+}
+
+/**
+ * Spends budget on the next step of the walk: entries it yields (including
+ * directories held back for 'post' order) and directories it opens. Returns
+ * the limit the step would exceed instead, spending nothing.
+ */
+export function spendBudget(
+  budget: WalkBudget,
+  entries: number,
+  directories: number,
+  options: WalkerOptions
+): WalkLimit | null {
+  if (budget.entries + entries > options.maxEntries) return 'maxEntries';
+  if (budget.directories + directories > options.maxDirectories) return 'maxDirectories';
+  budget.entries += entries;
+  budget.directories += directories;
+  return null;
+}
+
+/**
+ * Calls the directory lifecycle hooks for a directory that was left or entered
+ */
+export function notifyDirectory(
+  left: DirectoryLifecycle | null,
+  entered: DirectoryLifecycle | null,
+  options: WalkerOptions
+): void {
+  const format = options.posixPaths ? toPosixPath : (p: string) => p;
+
+  if (left && options.onLeaveDirectory) {
+    options.onLeaveDirectory(format(left.path), left.depth, left.summary);
+  }
+  if (entered && options.onEnterDirectory) {
+    options.onEnterDirectory(format(entered.path), entered.depth);
+  }
+}
+
+/**
+ * Decides what happens to an error: `onError` picks an action, falling back
+ * to the `suppressErrors` policy. Returns the wrapped error when it is
+ * skipped; otherwise unwinds the walk with a WalkInterrupt.
+ */
+export function handleError(err: unknown, context: ErrorContext, options: WalkerOptions): FStreamWalkError {
+  const wrapped = wrapError(err as Error, context.path);
+  const action = options.onError?.(wrapped, context) ?? (options.suppressErrors ? 'skip' : 'throw');
+
+  switch (action) {
+    case 'skip':
+      return wrapped;
+    case 'abort':
+      throw new WalkInterrupt(null);
+    case 'throw':
+      // Without onError, keep rethrowing the original error
+      throw new WalkInterrupt(options.onError ? wrapped : err);
+    default:
+      throw new TypeError(`onError must return 'skip', 'abort', 'throw' or undefined. Got: ${String(action)}`);
+  }
+}
+
+/**
+ * Creates the error thrown on cancellation when `throwOnAbort` is set,
+ * keeping the signal's reason as `cause`
+ */
+export function createAbortError(signal: AbortSignal): AbortError {
+  const err = new AbortError();
+  err.cause = signal.reason;
+  return err;
+}
+
+/**
+ * Closes a directory handle, ignoring errors if it was already closed
+ */
+async function closeDirectory(handle: DirectoryHandle): Promise<void> {
+  try {
+    await handle.close();
+  } catch {
+    // dirHandle closes automatically once fully iterated
+  }
+}
+
+/**
+ * Reads up to `size` entries from an open directory
+ */
+async function readBatch(frame: DirectoryFrame, size: number): Promise<Dirent[]> {
+  const dirents: Dirent[] = [];
+  while (dirents.length < size) {
+    const next = await frame.entries.next();
+    if (next.done) break;
+    dirents.push(next.value);
+  }
+  return dirents;
+}
+
+/**
+ * Resolves whether an entry is a directory, whether it passes the filters,
+ * and builds the entry to yield (with stats if requested)
+ */
+async function resolveEntry(
+  frame: DirectoryFrame,
+  dirent: Dirent,
+  options: WalkerOptions
+): Promise<ResolvedEntry> {
+  const steps = resolveEntrySteps(frame, dirent, options);
+  let next = steps.next();
+  while (!next.done) {
+    let result: unknown;
+    try {
+      result = await performStep(next.value, options);
+    } catch (err) {
+      next = steps.throw(err);
+      continue;
+    }
+    next = steps.next(result);
+  }
+  return next.value;
+}
+
+/**
+ * Performs one step of resolving an entry through the configured filesystem
+ */
+async function performStep(step: EntryStep, options: WalkerOptions): Promise<unknown> {
+  switch (step.op) {
+    case 'stat':
+      return options.fs.stat(step.path);
+    case 'lstat':
+      return options.fs.lstat(step.path);
+    case 'readlink':
+      return options.fs.readlink(step.path);
+    case 'filter':
+      return applyFilters(step.context, options);
+  }
+}
+
+/**
+ * The decisions behind `resolveEntry()`, shared with `walkSync()`. Every
+ * stat, readlink and filter call is yielded as a step for the driver to
+ * perform; its result (or error) is sent back into the generator.
+ */
+export function* resolveEntrySteps(
+  frame: EntryParent,
+  dirent: Dirent,
+  options: WalkerOptions
+): Generator<EntryStep, ResolvedEntry, unknown> {
+  const entryPath = joinPath(frame.path, dirent.name);
+  const relativePath = joinPath(frame.relativePath, dirent.name);
+  const absolutePath = joinPath(frame.absolutePath, dirent.name);
+
+  // Unwanted kinds are dropped before anything stats them, unless they
+  // may lead to wanted entries further down
+  const isFollowedLink = dirent.isSymbolicLink() && options.followSymlinks;
+  let isWantedType = matchesEntryType(dirent, options.types);
+  if (!isWantedType && !dirent.isDirectory() && !isFollowedLink) {
+    return { name: dirent.name, entry: null, child: null };
+  }
+
+  // Determine if it's a directory. Followed links count as what they point
+  // to, also for `types` (like find -L); broken ones stay symlinks
+  let isDirectory = dirent.isDirectory();
+
+  if (isFollowedLink) {
+    try {
+      const stats = yield* step<Stats>({ op: 'stat', path: entryPath });
+      isDirectory = stats.isDirectory();
+      isWantedType = matchesEntryType(stats, options.types);
+    } catch {
+      isDirectory = false; // Broken link
+    }
+  }
+
+  if (!isWantedType && !isDirectory) {
+    return { name: dirent.name, entry: null, child: null };
+  }
+
+  const entry = createEntry(frame, dirent, entryPath, relativePath, options);
+  if (isFollowedLink) entry.isDirectoryLink = isDirectory;
+  let child: PendingDirectory | null = isDirectory
+    ? {
+      root: frame.root,
+      path: entryPath,
+      relativePath,
+      absolutePath,
+      depth: frame.depth + 1,
+      device: frame.device,
+      ancestors: frame.lineage
+    }
+    : null;
+
+  let isIncluded: boolean;
+  try {
+    // Pruned directories are neither yielded nor opened
+    if (isDirectory && options.prune && options.prune(entry)) {
+      return { name: dirent.name, entry: null, child: null };
+    }
+
+    // Entries above minDepth are traversed but never yielded
+    isIncluded = frame.depth >= options.minDepth && (yield* step<boolean>({
+      op: 'filter',
+      context: {
+        name: dirent.name,
+        path: entryPath,
+        relativePath,
+        absolutePath,
+        depth: frame.depth,
+        dirent,
+        signal: options.signal
+      }
+    }));
+  } catch (err) {
+    // Misused filters end the walk whatever the error settings
+    if (err instanceof WalkInterrupt) throw err;
+    frame.summary.errors.push(
+      handleError(err, { path: entryPath, depth: frame.depth, operation: 'filter' }, options)
+    );
+    return { name: dirent.name, entry: null, child };
+  }
+
+  // Stay on the root's filesystem: mount points are reported, not entered
+  let stats: Stats | undefined;
+  if (child && options.oneFileSystem && child.depth <= options.maxDepth) {
+    try {
+      stats = yield* step<Stats>({ op: 'stat', path: entryPath });
+      if (stats.dev !== frame.device) {
+        frame.summary.mountPoints.push(entry.path);
+        child = null;
+      }
+    } catch (err) {
+      frame.summary.errors.push(
+        handleError(err, { path: entryPath, depth: frame.depth, operation: 'stat' }, options)
+      );
+    }
+  }
+
+  // Directories are only yielded if the user wants them
+  const isYielded = options.types === null ? !isDirectory || options.yieldDirectories : isWantedType;
+  if (!isIncluded || !isYielded) {
+    return { name: dirent.name, entry: null, child };
+  }
+
+  // Symlinks also report where they point and whether the target exists
+  if (options.withStats && dirent.isSymbolicLink()) {
+    yield* describeLink(entry, entryPath, frame, options);
+  }
+
+  // Add stats if requested (regular files also need them to spot hard links,
+  // and statFilter to decide whether they are yielded at all). A described
+  // link whose target could not be stat'ed is not stat'ed again: only
+  // 'lstat' mode has stats to report for it
+  const tracksInode = options.dedupeHardLinks && dirent.isFile();
+  const describedLink = options.withStats && dirent.isSymbolicLink();
+  const canStat = !describedLink || entry.targetStats !== undefined || options.statMode === 'lstat';
+  if ((options.withStats || tracksInode || options.statFilter) && canStat) {
+    try {
+      stats = options.statMode === 'lstat' && dirent.isSymbolicLink()
+        ? yield* step<Stats>({ op: 'lstat', path: entryPath })
+        : stats ?? entry.targetStats ?? (yield* step<Stats>({ op: 'stat', path: entryPath }));
+      if (options.withStats) entry.stats = stats;
+    } catch (e) {
+      // A dangling link has no target to stat: it just fails statFilter
+      if (!(dirent.isSymbolicLink() && isMissingTarget(e))) {
+        frame.summary.errors.push(
+          handleError(e, { path: entryPath, depth: frame.depth, operation: 'stat' }, options)
+        );
+      }
+      if (options.statFilter) return { name: dirent.name, entry: null, child };
+    }
+  }
+
+  if (options.statFilter && !(stats && options.statFilter(stats))) {
+    return { name: dirent.name, entry: null, child };
+  }
+
+  if (tracksInode && stats && stats.nlink > 1) {
+    return { name: dirent.name, entry, child, inode: `${stats.dev}:${stats.ino}` };
+  }
+  return { name: dirent.name, entry, child };
+}
+
+/**
+ * Sets `linkTarget`, `isBrokenLink` and `targetStats` on a symlink's entry
+ */
+function* describeLink(
+  entry: WalkerEntry,
+  entryPath: string,
+  frame: EntryParent,
+  options: WalkerOptions
+): Generator<EntryStep, void, unknown> {
+  try {
+    entry.linkTarget = yield* step<string>({ op: 'readlink', path: entryPath });
+  } catch (err) {
+    frame.summary.errors.push(
+      handleError(err, { path: entryPath, depth: frame.depth, operation: 'readlink' }, options)
+    );
+  }
+
+  try {
+    entry.targetStats = yield* step<Stats>({ op: 'stat', path: entryPath });
+    entry.isBrokenLink = false;
+  } catch (err) {
+    if (isMissingTarget(err)) {
+      entry.isBrokenLink = true;
+    } else {
+      frame.summary.errors.push(
+        handleError(err, { path: entryPath, depth: frame.depth, operation: 'stat' }, options)
+      );
+    }
+  }
+}
+
+/**
+ * Yields one step to the driver and returns what it sends back
+ */
+function* step<T>(request: EntryStep): Generator<EntryStep, T, unknown> {
+  return (yield request) as T;
+}
+
+/**
+ * Whether a failed stat of a symlink means its target does not exist
+ */
+export function isMissingTarget(err: unknown): boolean {
+  const code = (err as NodeJS.ErrnoException)?.code;
+  return code === 'ENOENT' || code === 'ENOTDIR' || code === 'ELOOP';
+}
+
+/**
+ * Builds the entry handed to consumers, converting separators if requested
+ */
+export function createEntry(
+  frame: PendingDirectory,
+  dirent: Dirent,
+  entryPath: string,
+  relativePath: string,
+  options: WalkerOptions
+): WalkerEntry {
+  const format = options.posixPaths ? toPosixPath : (p: string) => p;
+
+  return {
+    path: format(entryPath),
+    dirent,
+    depth: frame.depth,
+    name: dirent.name,
+    relativePath: format(relativePath),
+    root: format(frame.root),
+    parentPath: format(frame.path)
+  };
 }
 
 /**
  * Logic for include/exclude precedence
  */
-function applyFilters(name: string, options: WalkerOptions): boolean {
-  if (options.exclude && match(name, options.exclude)) return false;
-  if (options.include && !match(name, options.include)) return false;
+async function applyFilters(context: FilterContext, options: WalkerOptions): Promise<boolean> {
+  const subject = filterSubject(context, options);
+
+  if (options.exclude && await untilAborted(match(subject, options.exclude, context), options.signal)) {
+    return false;
+  }
+  if (options.include && !await untilAborted(match(subject, options.include, context), options.signal)) {
+    return false;
+  }
   return true;
 }
 
+/**
+ * What include/exclude patterns are matched against
+ */
+export function filterSubject(context: FilterContext, options: WalkerOptions): string {
+  // Paths are matched with forward slashes so patterns work on every platform
+  return options.matchPath ? toPosixPath(context.relativePath) : context.name;
+}
+
+/**
+ * Waits for an async filter result, but stops waiting once the walk is
+ * aborted. The walker checks the signal again before yielding anything.
+ */
+function untilAborted(result: boolean | Promise<boolean>, signal: AbortSignal | null): boolean | Promise<boolean> {
+  if (typeof result === 'boolean' || !signal) return result;
+  if (signal.aborted) return false;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(false);
+    signal.addEventListener('abort', onAbort, { once: true });
+    result.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      err => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Finds where a resumed directory listing continues: just after the last
+ * consumed entry, or where it would have been if it has since been removed
+ */
+function seekEntries(entries: Dirent[], resume: CursorFrame, sortType: NonNullable<WalkerOptions['sort']>): number {
+  const { lastName } = resume;
+  if (lastName === null) return 0;
+
+  const found = entries.findIndex(dirent => dirent.name === lastName);
+  if (found !== -1) return found + 1;
+
+  if (typeof sortType === 'function') {
+    // A custom order cannot place a missing name: fall back to the count
+    return Math.min(resume.position, entries.length);
+  }
+  const direction = sortType === 'asc' ? 1 : -1;
+  const next = entries.findIndex(dirent => direction * dirent.name.localeCompare(lastName) > 0);
+  return next === -1 ? entries.length : next;
+}
+
+/**
+ * Cursor for a walk that has not started yet
+ */
+export function startCursor(roots: string[]): WalkCursor {
+  return {
+    version: 1,
+    roots: [...roots],
+    stack: [],
+    queue: roots.map(root => ({
+      root,
+      path: root,
+      relativePath: '',
+      absolutePath: path.resolve(root),
+      depth: 0
+    })),
+    visited: [],
+    inodes: []
+  };
+}
+
+/**
+ * Snapshots the walk's pending work as plain, JSON-serializable data
+ */
+function createCursor(
+  roots: string[],
+  stack: DirectoryFrame[],
+  queue: PendingDirectory[],
+  visited: Set<string> | null,
+  inodes: Set<string>
+): WalkCursor {
+  return {
+    version: 1,
+    roots: [...roots],
+    stack: stack.map(frame => ({
+      ...toCursorDirectory(frame),
+      position: frame.position,
+      lastName: frame.lastName,
+      pendingEntry: frame.entry !== null
+    })),
+    queue: queue.map(toCursorDirectory),
+    visited: visited ? [...visited] : [],
+    inodes: [...inodes]
+  };
+}
+
+/**
+ * Keeps only the serializable fields of a pending directory
+ */
+function toCursorDirectory(dir: PendingDirectory): CursorDirectory {
+  const saved: CursorDirectory = {
+    root: dir.root,
+    path: dir.path,
+    relativePath: dir.relativePath,
+    absolutePath: dir.absolutePath,
+    depth: dir.depth
+  };
+  if (dir.device !== undefined) saved.device = dir.device;
+  if (dir.ancestors !== undefined) saved.ancestors = dir.ancestors;
+  return saved;
+}
+
 /**
  * Sort directory entries
  */
-function sortEntries(entries: Dirent[], sortType: NonNullable<WalkerOptions['sort']>): void {
+export function sortEntries(entries: Dirent[], sortType: NonNullable<WalkerOptions['sort']>): void {
   if (typeof sortType === 'function') {
     entries.sort(sortType);
   } else if (sortType === 'asc') {
@@ -0,0 +1,184 @@
+import { EventEmitter } from 'node:events';
+import streamWalker from './index.js';
+import { DEFAULT_OPTIONS } from './options.js';
+import { FStreamWalkError, wrapError } from './errors.js';
+import type { WalkerEntry, WalkerOptionsInput, WalkerIterator, WalkState, WalkLimit, ErrorContext } from './options.js';
+
+/**
+ * Statistics reported with the 'end' event
+ */
+export interface WalkSummary {
+  state: WalkState;
+  // Budget option that stopped a 'limited' walk
+  limit: WalkLimit | null;
+  files: number;
+  directories: number;
+  errors: number;
+  durationMs: number;
+}
+
+/**
+ * Events emitted by a WalkerEmitter, with their listener arguments
+ */
+export interface WalkerEmitterEvents {
+  file: [entry: WalkerEntry];
+  directory: [entry: WalkerEntry];
+  // `context` is null for the error that ended the walk
+  error: [err: FStreamWalkError, context: ErrorContext | null];
+  end: [summary: WalkSummary];
+}
+
+/**
+ * Event-based walker for long-running processes, built on the async walker.
+ *
+ * The walk starts as soon as the emitter is created; attach listeners in
+ * the same tick. Skipped errors are emitted as 'error' with their context
+ * when there is a listener for them. An error that ends the walk is
+ * emitted as 'error' without context, also only to listeners; the 'end'
+ * summary's state 'failed' reports it either way. 'end' is always
+ * emitted last, once.
+ *
+ * A 'file' or 'directory' listener that throws also ends the walk as
+ * 'failed'. Its exception is not an 'error' event: it is rethrown after
+ * 'end', like an exception from any other listener.
+ *
+ * `directory` events require `yieldDirectories`, which defaults to true here.
+ * Symlinks followed into directories are emitted as directories.
+ *
+ * @example
+ * const walk = new WalkerEmitter('./data');
+ * walk.on('file', entry => index(entry.path));
+ * walk.on('end', summary => console.log(summary.files, 'files'));
+ */
+export class WalkerEmitter extends EventEmitter<WalkerEmitterEvents> {
+  private readonly controller = new AbortController();
+  private readonly iterator: WalkerIterator;
+  private readonly startTime = Date.now();
+  private readonly counts = { files: 0, directories: 0, errors: 0 };
+  private paused = false;
+  private resumeWalk: (() => void) | null = null;
+  private detachSignal: (() => void) | null = null;
+  // Exception thrown by a 'file' or 'directory' listener
+  private listenerFailure: { error: unknown } | null = null;
+
+  /**
+   * @param dirPath - Root directory to start scanning, or several roots
+   * @param options - Walker options; `signal` still works alongside `abort()`
+   */
+  constructor(dirPath: string | string[], options: WalkerOptionsInput = {}) {
+    super();
+
+    const { signal, onError } = options;
+    if (signal) {
+      const onAbort = () => this.abort(signal.reason);
+      if (signal.aborted) onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.detachSignal = () => signal.removeEventListener('abort', onAbort);
+    }
+
+    // Validates options synchronously, like the walker itself
+    this.iterator = streamWalker(dirPath, {
+      yieldDirectories: true,
+      ...options,
+      signal: this.controller.signal,
+      onError: (err, context) => {
+        const suppressErrors = options.suppressErrors ?? DEFAULT_OPTIONS.suppressErrors;
+        const action = onError?.(err, context) ?? (suppressErrors ? 'skip' : 'throw');
+
+        // Errors that end the walk are reported once, when it ends
+        if (action === 'skip') {
+          this.counts.errors++;
+          if (this.listenerCount('error') > 0) this.emit('error', err, context);
+        }
+        return action;
+      }
+    });
+
+    void this.run();
+  }
+
+  /**
+   * How the walk ended; 'running' until 'end' is emitted
+   */
+  get state(): WalkState {
+    return this.listenerFailure ? 'failed' : this.iterator.state;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Stops emitting entries until `resume()` is called. Directories stay
+   * open, and no further entries are read while paused.
+   */
+  pause(): this {
+    this.paused = true;
+    return this;
+  }
+
+  resume(): this {
+    this.paused = false;
+    this.resumeWalk?.();
+    this.resumeWalk = null;
+    return this;
+  }
+
+  /**
+   * Ends the walk early; 'end' is still emitted, with state 'aborted'
+   */
+  abort(reason?: unknown): this {
+    this.controller.abort(reason);
+    // A paused walk has to run again to notice
+    return this.resume();
+  }
+
+  private async run(): Promise<void> {
+    try {
+      for await (const entry of this.iterator) {
+        try {
+          if (entry.dirent.isDirectory() || entry.isDirectoryLink) {
+            this.counts.directories++;
+            this.emit('directory', entry);
+          } else {
+            this.counts.files++;
+            this.emit('file', entry);
+          }
+        } catch (err) {
+          this.counts.errors++;
+          this.listenerFailure = { error: err };
+          break;
+        }
+
+        if (this.paused) {
+          await new Promise<void>(resolve => {
+            this.resumeWalk = resolve;
+          });
+        }
+      }
+    } catch (err) {
+      this.counts.errors++;
+      // Emitting 'error' without listeners would throw out of this floating promise
+      if (this.listenerCount('error') > 0) {
+        const error = err instanceof FStreamWalkError ? err : wrapError(err as Error, '');
+        this.emit('error', error, null);
+      }
+    } finally {
+      this.detachSignal?.();
+      this.emit('end', {
+        state: this.state,
+        limit: this.iterator.limit,
+        ...this.counts,
+        durationMs: Date.now() - this.startTime
+      });
+
+      // Rethrown outside this floating promise, so it is not swallowed
+      const failure = this.listenerFailure;
+      if (failure) {
+        process.nextTick(() => {
+          throw failure.error;
+        });
+      }
+    }
+  }
+}
@@ -95,14 +95,21 @@ interface SystemError extends Error {
 }
 
 /**
- * Convert system errors to fstream-walk errors
+ * Convert system errors to fstream-walk errors.
+ * The original error is kept as `cause`.
  */
 export function wrapError(err: SystemError, path: string): FStreamWalkError {
   if (err instanceof FStreamWalkError) {
     return err;
   }
 
-  switch (err.code) {
+  const wrapped = toWalkError(err, path);
+  wrapped.cause = err;
+  return wrapped;
+}
+
+function toWalkError(err: SystemError, path: string): FStreamWalkError {
+  switch (err?.code) {
     case 'EACCES':
     case 'EPERM':
       return new PermissionError(
@@ -130,8 +137,8 @@ export function wrapError(err: SystemError, path: string): FStreamWalkError {
 
     default:
       return new FStreamWalkError(
-        err.message || 'Unknown error',
-        { code: err.code, path }
+        err?.message || 'Unknown error',
+        { code: err?.code, path }
       );
   }
 }
@@ -1,7 +1,20 @@
 import walker from './index.js';
 import path from 'node:path';
 import fs from 'node:fs/promises';
-import type { WalkerOptionsInput } from './options.js';
+import { toPosixPath } from './utils.js';
+import { nodeFileSystem } from './adapter.js';
+import type { EntryType, WalkerOptionsInput } from './options.js';
+
+const REGULAR_FILES: EntryType[] = ['file'];
+
+/**
+ * Helpers that count or read files skip sockets, FIFOs, devices and
+ * symlinks unless the caller passes `types` itself. With `followSymlinks`,
+ * links are matched by their target, so links to regular files are kept.
+ */
+function filesOnly<T extends WalkerOptionsInput>(options: T): T {
+  return options.types === undefined ? { ...options, types: REGULAR_FILES } : options;
+}
 
 /**
  * Find files matching a pattern
@@ -13,7 +26,7 @@ import type { WalkerOptionsInput } from './options.js';
  */
 export async function findFiles(dirPath: string, options: WalkerOptionsInput = {}): Promise<string[]> {
   const files: string[] = [];
-  for await (const entry of walker(dirPath, options)) {
+  for await (const entry of walker(dirPath, filesOnly(options))) {
     files.push(entry.path);
   }
   return files;
@@ -40,7 +53,7 @@ export interface ExtensionBreakdown {
  * console.log(breakdown); // { '.js': 10, '.ts': 5, total: 15 }
  */
 export async function countFiles(dirPath: string, options: CountFilesOptions = {}): Promise<number | ExtensionBreakdown> {
-  const { byExtension, ...walkerOptions } = options;
+  const { byExtension, ...walkerOptions } = filesOnly(options);
 
   if (byExtension) {
     const counts: ExtensionBreakdown = { total: 0 };
@@ -61,6 +74,7 @@ export async function countFiles(dirPath: string, options: CountFilesOptions = {
 
 export interface SizeResult {
   totalSize: number;
+  uniqueSize: number;
   fileCount: number;
   averageSize: number;
   totalSizeKB: string;
@@ -69,6 +83,7 @@ export interface SizeResult {
 
 /**
  * Calculate total size of all files in a directory
+ * `totalSize` is the apparent size; `uniqueSize` counts hard-linked files once
  *
  * @example
  * const { totalSize, fileCount, averageSize } = await calculateSize('./src');
@@ -76,17 +91,24 @@ export interface SizeResult {
  */
 export async function calculateSize(dirPath: string, options: WalkerOptionsInput = {}): Promise<SizeResult> {
   let totalSize = 0;
+  let uniqueSize = 0;
   let fileCount = 0;
 
-  for await (const entry of walker(dirPath, { ...options, withStats: true })) {
+  for await (const entry of walker(dirPath, {
+    ...filesOnly(options),
+    withStats: true,
+    dedupeHardLinks: options.dedupeHardLinks || 'flag'
+  })) {
     if (entry.stats) {
       totalSize += entry.stats.size;
+      if (!entry.isDuplicateInode) uniqueSize += entry.stats.size;
       fileCount++;
     }
   }
 
   return {
     totalSize,
+    uniqueSize,
     fileCount,
     averageSize: fileCount > 0 ? Math.round(totalSize / fileCount) : 0,
     totalSizeKB: (totalSize / 1024).toFixed(2),
@@ -113,7 +135,7 @@ export interface FileInfo {
  * largest.forEach(f => console.log(`${f.path}: ${f.size} bytes`));
  */
 export async function getLargestFiles(dirPath: string, options: LargestFilesOptions = {}): Promise<FileInfo[]> {
-  const { limit = 10, ...walkerOptions } = options;
+  const { limit = 10, ...walkerOptions } = filesOnly(options);
   const files: FileInfo[] = [];
 
   for await (const entry of walker(dirPath, { ...walkerOptions, withStats: true })) {
@@ -150,11 +172,11 @@ export async function findRecentFiles(
   sinceDate: Date | number,
   options: WalkerOptionsInput = {}
 ): Promise<RecentFileInfo[]> {
-  const timestamp = sinceDate instanceof Date ? sinceDate.getTime() : sinceDate;
   const files: RecentFileInfo[] = [];
+  const statFilter = { ...options.statFilter, mtime: { ...options.statFilter?.mtime, after: sinceDate } };
 
-  for await (const entry of walker(dirPath, { ...options, withStats: true })) {
-    if (entry.stats && entry.stats.mtime.getTime() > timestamp) {
+  for await (const entry of walker(dirPath, { ...filesOnly(options), withStats: true, statFilter })) {
+    if (entry.stats) {
       files.push({
         path: entry.path,
         modified: entry.stats.mtime,
@@ -181,8 +203,7 @@ export async function buildTree(dirPath: string, options: WalkerOptionsInput = {
   const tree: TreeNode = {};
 
   for await (const entry of walker(dirPath, { ...options, yieldDirectories: true })) {
-    const relativePath = path.relative(dirPath, entry.path);
-    const parts = relativePath.split(path.sep);
+    const parts = toPosixPath(entry.relativePath).split('/');
 
     let current: TreeNode = tree;
     for (let i = 0; i < parts.length; i++) {
@@ -219,8 +240,8 @@ export interface DuplicateFiles {
 export async function findDuplicateNames(dirPath: string, options: WalkerOptionsInput = {}): Promise<DuplicateFiles> {
   const filesByName: { [filename: string]: string[] } = {};
 
-  for await (const entry of walker(dirPath, options)) {
-    const filename = path.basename(entry.path);
+  for await (const entry of walker(dirPath, filesOnly(options))) {
+    const filename = entry.name;
     if (!filesByName[filename]) {
       filesByName[filename] = [];
     }
@@ -274,7 +295,7 @@ export async function searchInFiles(
     regex = pattern as RegExp;
   }
 
-  for await (const entry of walker(dirPath, options)) {
+  for await (const entry of walker(dirPath, filesOnly(options))) {
     try {
       const content = await fs.readFile(entry.path, 'utf-8');
       const matches = [...content.matchAll(regex)];
@@ -330,12 +351,20 @@ export async function searchInFiles(
  */
 export async function findEmptyDirectories(dirPath: string, options: WalkerOptionsInput = {}): Promise<string[]> {
   const emptyDirs: string[] = [];
+  // Listed through the same filesystem the walker reads
+  const fileSystem = options.fs ?? nodeFileSystem;
 
   for await (const entry of walker(dirPath, { ...options, yieldDirectories: true })) {
     if (entry.dirent.isDirectory()) {
       try {
-        const contents = await fs.readdir(entry.path);
-        if (contents.length === 0) {
+        const handle = await fileSystem.opendir(entry.path);
+        let isEmpty: boolean;
+        try {
+          isEmpty = (await handle[Symbol.asyncIterator]().next()).done === true;
+        } finally {
+          await handle.close().catch(() => {});
+        }
+        if (isEmpty) {
           emptyDirs.push(entry.path);
         }
       } catch (err) {
@@ -363,7 +392,7 @@ export interface GroupedFiles {
 export async function groupByExtension(dirPath: string, options: WalkerOptionsInput = {}): Promise<GroupedFiles> {
   const groups: GroupedFiles = {};
 
-  for await (const entry of walker(dirPath, options)) {
+  for await (const entry of walker(dirPath, filesOnly(options))) {
     const ext = path.extname(entry.path) || '[no extension]';
     if (!groups[ext]) {
       groups[ext] = [];
@@ -1,21 +1,89 @@
-import { walk } from './core.js';
-import { sanitizeOptions } from './options.js';
-import type { WalkerOptionsInput, WalkerEntry } from './options.js';
+import { walk, startCursor } from './core.js';
+import { walkSync as walkGeneratorSync } from './sync.js';
+import { sanitizeCursor, sanitizeOptions, sanitizeRoots, sanitizeSyncOptions } from './options.js';
+import type { WalkerOptionsInput, WalkerIterator, SyncWalkerIterator, WalkStatus } from './options.js';
 
 /**
- * Returns an AsyncIterable that yields files/directories from the target path.
+ * Returns an AsyncIterable that yields files/directories from the target path(s).
+ * Once iteration ends, `state` tells whether the walk completed, and
+ * `limit` which budget option stopped it early.
+ * `checkpoint()` returns a cursor that `resumeFrom` can continue from.
  *
- * @param dirPath - Root directory to start scanning
+ * @param dirPath - Root directory to start scanning, or several roots
  * @param options - Configuration object
  */
 export default function streamWalker(
-  dirPath: string,
+  dirPath: string | string[],
   options: WalkerOptionsInput = {}
-): AsyncGenerator<WalkerEntry, void, undefined> {
+): WalkerIterator {
+  const roots = sanitizeRoots(dirPath);
   const finalOptions = sanitizeOptions(options);
-  return walk(dirPath, finalOptions);
+  if (finalOptions.resumeFrom) sanitizeCursor(finalOptions.resumeFrom, roots);
+
+  // Until iteration starts, the cursor is where the walk will begin
+  const status: WalkStatus = {
+    state: 'running',
+    limit: null,
+    checkpoint: () => finalOptions.resumeFrom ?? startCursor(roots)
+  };
+
+  return Object.defineProperties(walk(roots, finalOptions, status), {
+    state: { get: () => status.state, enumerable: true },
+    limit: { get: () => status.limit, enumerable: true },
+    checkpoint: { value: () => status.checkpoint(), enumerable: true }
+  }) as WalkerIterator;
 }
 
+/**
+ * Synchronous counterpart of the default export, for contexts that cannot
+ * await. Takes the same options, except `resumeFrom` and `fs`, and yields
+ * the same entries in the same order.
+ *
+ * @param dirPath - Root directory to start scanning, or several roots
+ * @param options - Configuration object
+ */
+export function walkSync(
+  dirPath: string | string[],
+  options: WalkerOptionsInput = {}
+): SyncWalkerIterator {
+  const roots = sanitizeRoots(dirPath);
+  const finalOptions = sanitizeSyncOptions(options);
+  const status: Pick<WalkStatus, 'state' | 'limit'> = { state: 'running', limit: null };
+
+  return Object.defineProperties(walkGeneratorSync(roots, finalOptions, status), {
+    state: { get: () => status.state, enumerable: true },
+    limit: { get: () => status.limit, enumerable: true }
+  }) as SyncWalkerIterator;
+}
+
+export { nodeFileSystem } from './adapter.js';
+
 // Re-export types for consumers
-export type { WalkerOptions, WalkerOptionsInput, WalkerEntry, SortType } from './options.js';
-export type { PatternType } from './utils.js';
+export type {
+  WalkerOptions,
+  WalkerOptionsInput,
+  WalkerEntry,
+  WalkerIterator,
+  SyncWalkerIterator,
+  WalkState,
+  WalkLimit,
+  SortType,
+  TraversalStrategy,
+  DirectoryOrder,
+  DirectorySummary,
+  ErrorAction,
+  ErrorContext,
+  HardLinkMode,
+  StatMode,
+  SymlinkPolicy,
+  EntryType,
+  StatFilter,
+  NumberRange,
+  TimeRange,
+  ModeMask,
+  WalkCursor,
+  CursorDirectory,
+  CursorFrame
+} from './options.js';
+export type { PatternType, FilterFunction, FilterContext } from './utils.js';
+export type { FileSystemAdapter, DirectoryHandle } from './adapter.js';
@@ -1,59 +1,363 @@
+import os from 'node:os';
 import type { Dirent, Stats } from 'node:fs';
+import { matchGlob } from './glob.js';
+import type { MatchGlobOptions } from './glob.js';
 import type { PatternType } from './utils.js';
+import type { FStreamWalkError } from './errors.js';
+import { nodeFileSystem } from './adapter.js';
+import type { FileSystemAdapter } from './adapter.js';
 
 export interface WalkerEntry {
   path: string;
   dirent: Dirent;
   depth: number;
+  name: string;
+  relativePath: string;
+  root: string;
+  parentPath: string;
   stats?: Stats;
+  // Set on regular files when `dedupeHardLinks` is 'flag'
+  isDuplicateInode?: boolean;
+  // Set on symlinks when `followSymlinks` is enabled: whether the link leads to a directory
+  isDirectoryLink?: boolean;
+  // Set on symlinks when `withStats` is enabled
+  linkTarget?: string;
+  isBrokenLink?: boolean;
+  targetStats?: Stats;
 }
 
+/**
+ * What the walker saw while reading a single directory
+ */
+export interface DirectorySummary {
+  childCount: number;
+  errors: FStreamWalkError[];
+  // Subdirectories not entered because they are on another device (`oneFileSystem`)
+  mountPoints: string[];
+}
+
+/**
+ * What `onError` may ask the walker to do with an error
+ */
+export type ErrorAction = 'skip' | 'abort' | 'throw';
+
+/**
+ * Where an error handed to `onError` happened
+ */
+export interface ErrorContext {
+  path: string;
+  depth: number;
+  operation: 'opendir' | 'readdir' | 'realpath' | 'stat' | 'readlink' | 'filter';
+}
+
+/**
+ * How a walk ended; 'running' until the iterator finishes
+ */
+export type WalkState = 'running' | 'completed' | 'aborted' | 'stopped' | 'failed' | 'limited';
+
+/**
+ * The budget option that stopped a 'limited' walk
+ */
+export type WalkLimit = 'maxEntries' | 'maxDirectories' | 'timeLimitMs';
+
+export interface WalkStatus {
+  state: WalkState;
+  limit: WalkLimit | null;
+  checkpoint: () => WalkCursor;
+}
+
+/**
+ * A directory recorded in a walk cursor
+ */
+export interface CursorDirectory {
+  root: string;
+  path: string;
+  relativePath: string;
+  absolutePath: string;
+  depth: number;
+  device?: number;
+  ancestors?: string[];
+}
+
+/**
+ * An open directory recorded in a walk cursor, with how far into its sorted
+ * listing the walk got
+ */
+export interface CursorFrame extends CursorDirectory {
+  // Number of entries consumed, and the name of the last one
+  position: number;
+  lastName: string | null;
+  // The directory's own entry is still to be yielded ('post' order)
+  pendingEntry: boolean;
+}
+
+/**
+ * Serializable snapshot of a walk's progress, returned by `checkpoint()`
+ * and accepted back as `resumeFrom`
+ */
+export interface WalkCursor {
+  version: 1;
+  roots: string[];
+  stack: CursorFrame[];
+  queue: CursorDirectory[];
+  // Cycle and hard-link tracking, so a resumed walk yields no duplicates
+  visited: string[];
+  inodes: string[];
+}
+
+/**
+ * The iterator returned by the walker, which also reports how it ended
+ * and where it got to
+ */
+export interface WalkerIterator extends AsyncGenerator<WalkerEntry, void, undefined> {
+  readonly state: WalkState;
+  readonly limit: WalkLimit | null;
+  checkpoint(): WalkCursor;
+}
+
+/**
+ * The iterator returned by `walkSync()`, which also reports how it ended
+ */
+export interface SyncWalkerIterator extends Generator<WalkerEntry, void, undefined> {
+  readonly state: WalkState;
+  readonly limit: WalkLimit | null;
+}
+
+export type HardLinkMode = 'skip' | 'flag' | false;
+
 export type SortType = 'asc' | 'desc' | ((a: Dirent, b: Dirent) => number) | null;
 
+export type TraversalStrategy = 'dfs' | 'bfs';
+
+export type DirectoryOrder = 'pre' | 'post';
+
+export type StatMode = 'stat' | 'lstat';
+
+export type SymlinkPolicy = 'dedupe' | 'cycle-only';
+
+export type EntryType = 'file' | 'directory' | 'symlink' | 'block' | 'character' | 'fifo' | 'socket';
+
+export const ENTRY_TYPES: readonly EntryType[] = [
+  'file', 'directory', 'symlink', 'block', 'character', 'fifo', 'socket'
+];
+
+/**
+ * An inclusive range, e.g. of sizes in bytes
+ */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A time window with exclusive ends: epoch milliseconds, date strings or Dates
+ */
+export interface TimeRange {
+  after?: number | string | Date;
+  before?: number | string | Date;
+}
+
+/**
+ * Permission bits, as numbers or octal strings such as '755' or '0o111'
+ */
+export interface ModeMask {
+  all?: number | string;
+  any?: number | string;
+  none?: number | string;
+}
+
+/**
+ * Stat criteria an entry must all meet to be yielded. Plain JSON works,
+ * so filters can come from config files.
+ */
+export interface StatFilter {
+  size?: NumberRange;
+  mtime?: TimeRange;
+  ctime?: TimeRange;
+  atime?: TimeRange;
+  birthtime?: TimeRange;
+  mode?: ModeMask;
+  uid?: number | number[];
+  gid?: number | number[];
+}
+
+export type StatPredicate = (stats: Stats) => boolean;
+
 export interface WalkerOptions {
   maxDepth: number;
+  minDepth: number;
   include: PatternType;
   exclude: PatternType;
   yieldDirectories: boolean;
   followSymlinks: boolean;
+  symlinkPolicy: SymlinkPolicy;
   suppressErrors: boolean;
   signal: AbortSignal | null;
   sort: SortType;
   onProgress: ((entry: WalkerEntry) => void) | null;
   withStats: boolean;
+  statMode: StatMode;
+  strategy: TraversalStrategy;
+  concurrency: number;
+  prune: ((entry: WalkerEntry) => boolean) | null;
+  matchPath: boolean;
+  posixPaths: boolean;
+  directoryOrder: DirectoryOrder;
+  onEnterDirectory: ((dirPath: string, depth: number) => void) | null;
+  onLeaveDirectory: ((dirPath: string, depth: number, summary: DirectorySummary) => void) | null;
+  onError: ((err: FStreamWalkError, context: ErrorContext) => ErrorAction | void) | null;
+  throwOnAbort: boolean;
+  oneFileSystem: boolean;
+  dedupeHardLinks: HardLinkMode;
+  resumeFrom: WalkCursor | null;
+  fs: FileSystemAdapter;
+  maxEntries: number;
+  maxDirectories: number;
+  timeLimitMs: number;
+  types: ReadonlySet<EntryType> | null;
+  statFilter: StatPredicate | null;
 }
 
 export interface WalkerOptionsInput {
   maxDepth?: number;
+  minDepth?: number;
   include?: PatternType;
   exclude?: PatternType;
   yieldDirectories?: boolean;
   followSymlinks?: boolean;
+  symlinkPolicy?: SymlinkPolicy;
   suppressErrors?: boolean;
   signal?: AbortSignal | null;
   sort?: SortType;
   onProgress?: ((entry: WalkerEntry) => void) | null;
   withStats?: boolean;
+  statMode?: StatMode;
+  strategy?: TraversalStrategy;
+  concurrency?: number;
+  prune?: ((entry: WalkerEntry) => boolean) | null;
+  matchPath?: boolean;
+  posixPaths?: boolean;
+  directoryOrder?: DirectoryOrder;
+  onEnterDirectory?: ((dirPath: string, depth: number) => void) | null;
+  onLeaveDirectory?: ((dirPath: string, depth: number, summary: DirectorySummary) => void) | null;
+  onError?: ((err: FStreamWalkError, context: ErrorContext) => ErrorAction | void) | null;
+  throwOnAbort?: boolean;
+  oneFileSystem?: boolean;
+  dedupeHardLinks?: HardLinkMode;
+  resumeFrom?: WalkCursor | null;
+  fs?: FileSystemAdapter;
+  maxEntries?: number;
+  maxDirectories?: number;
+  timeLimitMs?: number;
+  types?: readonly EntryType[] | ReadonlySet<EntryType> | null;
+  statFilter?: StatFilter | null;
+}
+
+/**
+ * A glob filter, in a form that can be sent to a worker thread
+ */
+export interface GlobSpec {
+  glob: string | string[];
+  options?: MatchGlobOptions;
+}
+
+/**
+ * An include/exclude filter that survives structured cloning
+ */
+export type FilterSpec = string | RegExp | GlobSpec | null;
+
+/**
+ * Options for `parallelWalker()`. Everything handed to the workers must be
+ * serializable, so filters are specs and `sort` is 'asc' or 'desc'.
+ */
+export interface ParallelWalkerOptionsInput {
+  maxDepth?: number;
+  minDepth?: number;
+  include?: FilterSpec;
+  exclude?: FilterSpec;
+  matchPath?: boolean;
+  yieldDirectories?: boolean;
+  followSymlinks?: boolean;
+  symlinkPolicy?: SymlinkPolicy;
+  suppressErrors?: boolean;
+  withStats?: boolean;
+  statMode?: StatMode;
+  posixPaths?: boolean;
+  directoryOrder?: DirectoryOrder;
+  concurrency?: number;
+  types?: readonly EntryType[] | ReadonlySet<EntryType> | null;
+  statFilter?: StatFilter | null;
+  sort?: 'asc' | 'desc' | null;
+  // Only used on the calling thread
+  signal?: AbortSignal | null;
+  throwOnAbort?: boolean;
+  onProgress?: ((entry: WalkerEntry) => void) | null;
+  workers?: number;
 }
 
 export const DEFAULT_OPTIONS: WalkerOptions = {
   maxDepth: Infinity,      // How deep to recurse
+  minDepth: 0,             // Shallowest depth at which entries are yielded
   include: null,           // Filter to include (String, Regex, Fn)
   exclude: null,           // Filter to exclude (String, Regex, Fn)
   yieldDirectories: false, // Should we yield directory paths too?
   followSymlinks: false,   // Dangerous: follow symlinks?
+  symlinkPolicy: 'dedupe', // 'cycle-only' re-enters directories reached through several links
   suppressErrors: true,    // Ignore EACCES/EPERM errors
   signal: null,            // AbortSignal to cancel operation
   sort: null,              // Sort entries (null, 'asc', 'desc', or custom function)
   onProgress: null,        // Progress callback function
-  withStats: false         // Include fs.Stats in yielded entries
+  withStats: false,        // Include fs.Stats in yielded entries
+  statMode: 'stat',        // 'lstat' describes symlinks themselves in `stats`
+  strategy: 'dfs',         // Traversal order ('dfs' depth-first, 'bfs' breadth-first)
+  concurrency: 1,          // Directory reads and stats allowed in flight at once
+  prune: null,             // Predicate to skip a directory without opening it
+  matchPath: false,        // Match include/exclude against the relative path, not the name
+  posixPaths: false,       // Use '/' separators in yielded paths on every platform
+  directoryOrder: 'pre',   // Yield directories before ('pre') or after ('post') their contents
+  onEnterDirectory: null,  // Called when the walker starts reading a directory
+  onLeaveDirectory: null,  // Called with a summary once a directory has been read
+  onError: null,           // Decides whether to skip, abort or throw on each error
+  throwOnAbort: false,     // Throw an AbortError when signal aborts instead of ending quietly
+  oneFileSystem: false,    // Do not descend into directories on other devices (find -xdev)
+  dedupeHardLinks: false,  // 'skip' or 'flag' files whose (dev, ino) was already yielded
+  resumeFrom: null,        // Cursor from checkpoint() to continue an interrupted walk
+  fs: nodeFileSystem,      // Filesystem to walk (opendir, stat, lstat, readlink, realpath)
+  maxEntries: Infinity,    // Stop before yielding more entries than this
+  maxDirectories: Infinity, // Stop before reading more directories than this
+  timeLimitMs: Infinity,   // Stop once the walk has run this long
+  types: null,             // Entry kinds to yield; others are skipped before any stat
+  statFilter: null         // Size, time, mode and owner criteria; entries are only stat'ed if set
 };
 
+/**
+ * Normalizes the root argument to a list of root directories.
+ */
+export function sanitizeRoots(dirPath: string | string[]): string[] {
+  const roots = Array.isArray(dirPath) ? dirPath : [dirPath];
+
+  if (roots.length === 0 || roots.some(root => typeof root !== 'string' || root === '')) {
+    throw new Error('dirPath must be a non-empty string or a non-empty array of strings');
+  }
+
+  return roots;
+}
+
+/**
+ * Checks that a cursor passed as `resumeFrom` was taken from a walk of the same roots.
+ */
+export function sanitizeCursor(cursor: WalkCursor, roots: string[]): void {
+  if (cursor.roots.length !== roots.length || cursor.roots.some((root, i) => root !== roots[i])) {
+    throw new Error('resumeFrom must come from a walk of the same roots');
+  }
+}
+
 /**
  * Merges user options with defaults and validates them.
  */
 export function sanitizeOptions(opts: WalkerOptionsInput = {}): WalkerOptions {
-  const merged: WalkerOptions = { ...DEFAULT_OPTIONS, ...opts };
+  const { types, statFilter, ...rest } = opts;
+  const merged: WalkerOptions = { ...DEFAULT_OPTIONS, ...rest };
 
   // BUG-004 fixed: Validate options
 
@@ -63,6 +367,23 @@ export function sanitizeOptions(opts: WalkerOptionsInput = {}): WalkerOptions {
     throw new Error('maxDepth must be a non-negative number or Infinity');
   }
 
+  // Validate walk budgets
+  for (const key of ['maxEntries', 'maxDirectories', 'timeLimitMs'] as const) {
+    const value = merged[key];
+    if (value !== Infinity && (typeof value !== 'number' || isNaN(value) || value < 0)) {
+      throw new Error(`${key} must be a non-negative number or Infinity`);
+    }
+  }
+
+  // Validate minDepth
+  if (typeof merged.minDepth !== 'number' || isNaN(merged.minDepth) || merged.minDepth < 0 ||
+      merged.minDepth === Infinity) {
+    throw new Error('minDepth must be a non-negative number');
+  }
+  if (merged.minDepth > merged.maxDepth) {
+    throw new Error('minDepth cannot be greater than maxDepth');
+  }
+
   // BUG-007 fixed: Validate sort option
   if (merged.sort !== null &&
       merged.sort !== 'asc' &&
@@ -71,6 +392,65 @@ export function sanitizeOptions(opts: WalkerOptionsInput = {}): WalkerOptions {
     throw new Error("sort must be 'asc', 'desc', a function, or null");
   }
 
+  // Validate strategy
+  if (merged.strategy !== 'dfs' && merged.strategy !== 'bfs') {
+    throw new Error("strategy must be 'dfs' or 'bfs'");
+  }
+
+  // Validate directoryOrder
+  if (merged.directoryOrder !== 'pre' && merged.directoryOrder !== 'post') {
+    throw new Error("directoryOrder must be 'pre' or 'post'");
+  }
+  if (merged.directoryOrder === 'post' && merged.strategy === 'bfs') {
+    throw new Error("directoryOrder 'post' is only supported with strategy 'dfs'");
+  }
+
+  // Validate concurrency
+  if (!Number.isInteger(merged.concurrency) || merged.concurrency < 1) {
+    throw new Error('concurrency must be a positive integer');
+  }
+
+  // Validate symlinkPolicy
+  if (merged.symlinkPolicy !== 'dedupe' && merged.symlinkPolicy !== 'cycle-only') {
+    throw new Error("symlinkPolicy must be 'dedupe' or 'cycle-only'");
+  }
+
+  // Validate statMode
+  if (merged.statMode !== 'stat' && merged.statMode !== 'lstat') {
+    throw new Error("statMode must be 'stat' or 'lstat'");
+  }
+
+  // Validate dedupeHardLinks
+  if (merged.dedupeHardLinks !== false &&
+      merged.dedupeHardLinks !== 'skip' &&
+      merged.dedupeHardLinks !== 'flag') {
+    throw new Error("dedupeHardLinks must be 'skip', 'flag', or false");
+  }
+
+  // Validate resumeFrom
+  if (merged.resumeFrom !== null) {
+    const cursor = merged.resumeFrom;
+    if (typeof cursor !== 'object' || cursor.version !== 1 ||
+        !Array.isArray(cursor.roots) || !Array.isArray(cursor.stack) || !Array.isArray(cursor.queue) ||
+        !Array.isArray(cursor.visited) || !Array.isArray(cursor.inodes)) {
+      throw new Error('resumeFrom must be a cursor returned by checkpoint() or null');
+    }
+    // Positions are only meaningful if every run lists directories in the same order
+    if (merged.sort === null) {
+      throw new Error('resumeFrom requires a sort order');
+    }
+  }
+
+  // Validate fs adapter
+  if (typeof merged.fs !== 'object' || merged.fs === null ||
+      typeof merged.fs.opendir !== 'function' ||
+      typeof merged.fs.stat !== 'function' ||
+      typeof merged.fs.lstat !== 'function' ||
+      typeof merged.fs.readlink !== 'function' ||
+      typeof merged.fs.realpath !== 'function') {
+    throw new Error('fs must implement opendir, stat, lstat, readlink and realpath');
+  }
+
   // Validate signal
   if (merged.signal !== null && !(merged.signal instanceof AbortSignal)) {
     throw new Error('signal must be an AbortSignal or null');
@@ -89,11 +469,218 @@ export function sanitizeOptions(opts: WalkerOptionsInput = {}): WalkerOptions {
   if (typeof merged.withStats !== 'boolean') {
     throw new Error('withStats must be a boolean');
   }
+  if (typeof merged.matchPath !== 'boolean') {
+    throw new Error('matchPath must be a boolean');
+  }
+  if (typeof merged.posixPaths !== 'boolean') {
+    throw new Error('posixPaths must be a boolean');
+  }
+  if (typeof merged.throwOnAbort !== 'boolean') {
+    throw new Error('throwOnAbort must be a boolean');
+  }
+  if (typeof merged.oneFileSystem !== 'boolean') {
+    throw new Error('oneFileSystem must be a boolean');
+  }
+
+  // Validate types (yieldDirectories keeps meaning "also yield directories")
+  if (types !== undefined && types !== null) {
+    const list = types instanceof Set ? [...types] : types;
+    if (!Array.isArray(list) || list.some(type => !ENTRY_TYPES.includes(type))) {
+      throw new Error(`types must be an array or Set of ${ENTRY_TYPES.map(type => `'${type}'`).join(', ')}, or null`);
+    }
+    merged.types = new Set(merged.yieldDirectories ? [...list, 'directory'] : list);
+  }
+
+  // Validate statFilter
+  merged.statFilter = compileStatFilter(statFilter);
 
   // Validate onProgress callback
   if (merged.onProgress !== null && typeof merged.onProgress !== 'function') {
     throw new Error('onProgress must be a function or null');
   }
 
+  // Validate directory lifecycle hooks
+  if (merged.onEnterDirectory !== null && typeof merged.onEnterDirectory !== 'function') {
+    throw new Error('onEnterDirectory must be a function or null');
+  }
+  if (merged.onLeaveDirectory !== null && typeof merged.onLeaveDirectory !== 'function') {
+    throw new Error('onLeaveDirectory must be a function or null');
+  }
+
+  // Validate onError handler
+  if (merged.onError !== null && typeof merged.onError !== 'function') {
+    throw new Error('onError must be a function or null');
+  }
+
+  // Validate prune predicate
+  if (merged.prune !== null && typeof merged.prune !== 'function') {
+    throw new Error('prune must be a function or null');
+  }
+
+  return merged;
+}
+
+/**
+ * Validates options for `walkSync()`: the same options as the async walker,
+ * minus those that need asynchronous I/O.
+ */
+export function sanitizeSyncOptions(opts: WalkerOptionsInput = {}): WalkerOptions {
+  const merged = sanitizeOptions(opts);
+
+  if (merged.resumeFrom !== null) {
+    throw new Error('resumeFrom is not supported by walkSync');
+  }
+  if (merged.fs !== nodeFileSystem) {
+    throw new Error('fs adapters are not supported by walkSync');
+  }
+
   return merged;
 }
+
+const PARALLEL_OPTIONS = new Set([
+  'maxDepth', 'minDepth', 'include', 'exclude', 'matchPath', 'yieldDirectories', 'followSymlinks',
+  'symlinkPolicy', 'suppressErrors', 'withStats', 'statMode', 'posixPaths', 'directoryOrder', 'concurrency',
+  'types', 'statFilter', 'sort', 'signal', 'throwOnAbort', 'onProgress', 'workers'
+]);
+
+/**
+ * Turns a serializable filter spec into a pattern the walker can match.
+ */
+export function compileFilterSpec(spec: FilterSpec | undefined): PatternType {
+  if (spec === null || spec === undefined || typeof spec === 'string' || spec instanceof RegExp) {
+    return spec ?? null;
+  }
+  if (typeof spec === 'object' && (typeof spec.glob === 'string' || Array.isArray(spec.glob))) {
+    const { glob, options } = spec;
+    return (subject: string) => matchGlob(subject, glob, options);
+  }
+  throw new Error('include/exclude must be a string, RegExp, { glob } spec, or null in parallelWalker');
+}
+
+/**
+ * `os.availableParallelism()` only exists from Node 18.14
+ */
+function availableParallelism(): number {
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+}
+
+/**
+ * Validates options for `parallelWalker()`: the walker's options that can
+ * be serialized, plus the number of worker threads.
+ */
+export function sanitizeParallelOptions(opts: ParallelWalkerOptionsInput = {}): WalkerOptions & { workers: number } {
+  for (const key of Object.keys(opts)) {
+    if (!PARALLEL_OPTIONS.has(key)) {
+      throw new Error(`${key} is not supported by parallelWalker`);
+    }
+  }
+
+  const { workers = Math.max(1, availableParallelism() - 1), include, exclude, ...rest } = opts;
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new Error('workers must be a positive integer');
+  }
+  if (rest.sort !== undefined && rest.sort !== null && rest.sort !== 'asc' && rest.sort !== 'desc') {
+    throw new Error("sort must be 'asc', 'desc', or null in parallelWalker");
+  }
+
+  const merged = sanitizeOptions({
+    ...rest,
+    include: compileFilterSpec(include),
+    exclude: compileFilterSpec(exclude)
+  });
+  return { ...merged, workers };
+}
+
+const TIME_KEYS = ['mtime', 'ctime', 'atime', 'birthtime'] as const;
+
+/**
+ * Validates a `statFilter` spec and turns it into a predicate over stats.
+ * Returns null when the spec has no criteria, so nothing gets stat'ed for it.
+ */
+export function compileStatFilter(spec: StatFilter | null | undefined): StatPredicate | null {
+  if (spec === null || spec === undefined) return null;
+  if (typeof spec !== 'object' || Array.isArray(spec)) {
+    throw new Error('statFilter must be an object or null');
+  }
+
+  const checks: StatPredicate[] = [];
+  for (const [key, value] of Object.entries(spec)) {
+    if (value === undefined) continue;
+
+    if (key === 'size') {
+      const range = asObject(value, 'statFilter.size') as NumberRange;
+      const min = toBound(range.min, 'statFilter.size.min') ?? 0;
+      const max = toBound(range.max, 'statFilter.size.max') ?? Infinity;
+      checks.push(stats => stats.size >= min && stats.size <= max);
+    } else if ((TIME_KEYS as readonly string[]).includes(key)) {
+      const field = key as typeof TIME_KEYS[number];
+      const range = asObject(value, `statFilter.${field}`) as TimeRange;
+      const after = toTimestamp(range.after, `statFilter.${field}.after`) ?? -Infinity;
+      const before = toTimestamp(range.before, `statFilter.${field}.before`) ?? Infinity;
+      checks.push(stats => {
+        const time = stats[field].getTime();
+        return time > after && time < before;
+      });
+    } else if (key === 'mode') {
+      const mask = asObject(value, 'statFilter.mode') as ModeMask;
+      const all = toMode(mask.all, 'statFilter.mode.all');
+      const any = toMode(mask.any, 'statFilter.mode.any');
+      const none = toMode(mask.none, 'statFilter.mode.none');
+      checks.push(stats => {
+        const bits = stats.mode & 0o7777;
+        return (all === null || (bits & all) === all) &&
+          (any === null || (bits & any) !== 0) &&
+          (none === null || (bits & none) === 0);
+      });
+    } else if (key === 'uid' || key === 'gid') {
+      const ids = Array.isArray(value) ? value : [value];
+      if (ids.length === 0 || ids.some(id => !Number.isInteger(id) || id < 0)) {
+        throw new Error(`statFilter.${key} must be a non-negative integer or an array of them`);
+      }
+      const allowed = new Set<number>(ids);
+      checks.push(stats => allowed.has(stats[key]));
+    } else {
+      throw new Error(`statFilter.${key} is not supported`);
+    }
+  }
+
+  return checks.length === 0 ? null : stats => checks.every(check => check(stats));
+}
+
+function asObject(value: unknown, name: string): object {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${name} must be an object`);
+  }
+  return value;
+}
+
+function toBound(value: unknown, name: string): number | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || isNaN(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+function toTimestamp(value: unknown, name: string): number | null {
+  if (value === undefined) return null;
+  const time = value instanceof Date ? value.getTime()
+    : typeof value === 'string' ? Date.parse(value)
+      : typeof value === 'number' ? value
+        : NaN;
+  if (isNaN(time)) {
+    throw new Error(`${name} must be a timestamp, a date string or a Date`);
+  }
+  return time;
+}
+
+function toMode(value: unknown, name: string): number | null {
+  if (value === undefined) return null;
+  if (typeof value === 'string' && /^(0o)?[0-7]{1,4}$/.test(value)) {
+    return parseInt(value.replace(/^0o/, ''), 8);
+  }
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0o7777) {
+    return value;
+  }
+  throw new Error(`${name} must be permission bits, as a number or an octal string`);
+}
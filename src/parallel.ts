@@ -0,0 +1,528 @@
+import fs from 'node:fs/promises';
+import { Stats } from 'node:fs';
+import type { Dirent } from 'node:fs';
+import path from 'node:path';
+import { once } from 'node:events';
+import { Worker } from 'node:worker_threads';
+import { walk, createAbortError } from './core.js';
+import {
+  AbortError,
+  FStreamWalkError,
+  InvalidPathError,
+  PathNotFoundError,
+  PermissionError,
+  SymlinkLoopError
+} from './errors.js';
+import { sanitizeParallelOptions, sanitizeRoots } from './options.js';
+import { entryTypeOf } from './utils.js';
+import type {
+  EntryType,
+  WalkerEntry,
+  WalkerOptions,
+  ParallelWalkerOptionsInput,
+  CursorDirectory
+} from './options.js';
+
+// Entries per message, and messages a worker may send before waiting for an ack
+export const BATCH_SIZE = 256;
+export const BATCH_WINDOW = 8;
+
+type DirentType = EntryType | 'unknown';
+
+/**
+ * A WalkerEntry flattened for structured cloning
+ */
+export interface SerializedEntry {
+  path: string;
+  depth: number;
+  name: string;
+  relativePath: string;
+  root: string;
+  parentPath: string;
+  type: DirentType;
+  stats?: Record<string, number>;
+  isDirectoryLink?: boolean;
+  linkTarget?: string;
+  isBrokenLink?: boolean;
+  targetStats?: Record<string, number>;
+}
+
+/**
+ * A subtree for a worker to walk, with options it can rebuild its filters from
+ */
+export interface WorkerTask {
+  type: 'walk';
+  id: number;
+  dir: CursorDirectory;
+  // Real paths of the roots and of the other subtrees, so symlinks into them are not walked twice
+  visited: string[];
+  options: ParallelWalkerOptionsInput;
+}
+
+export type WorkerRequest = WorkerTask | { type: 'ack'; id: number } | { type: 'close' };
+
+export type WorkerResponse =
+  | { type: 'entries'; id: number; entries: SerializedEntry[] }
+  | { type: 'done'; id: number }
+  | { type: 'error'; id: number; error: SerializedError };
+
+/**
+ * An error thrown in a worker, flattened for structured cloning
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  path?: string;
+}
+
+/**
+ * A directory below a root, walked by a worker, with the entries it has sent back
+ */
+interface Subtree {
+  id: number;
+  dir: CursorDirectory;
+  batches: SerializedEntry[][];
+  done: boolean;
+  error: Error | null;
+  // Entry for the directory itself, yielded after its contents ('post' order)
+  entry: WalkerEntry | null;
+  worker: Worker | null;
+}
+
+/**
+ * Walks directory trees on worker threads.
+ *
+ * The roots' own entries are read on the calling thread; each directory
+ * directly below a root is walked by a worker, running the same options and
+ * filters. With `sort`, entries come back in the order `walker()` would
+ * yield them; without it, subtrees are interleaved as workers finish
+ * batches. Only depth-first traversal is supported.
+ *
+ * One difference remains with `followSymlinks` and `symlinkPolicy: 'dedupe'`:
+ * workers cannot tell which path `walker()` would reach first, so a
+ * directory directly below a root is always walked there, and links to it
+ * from other subtrees are skipped. `walker()` walks whichever path comes
+ * first in walk order.
+ *
+ * @param dirPath - Root directory to start scanning, or several roots
+ * @param options - Serializable walker options, plus `workers`
+ */
+export function parallelWalker(
+  dirPath: string | string[],
+  options: ParallelWalkerOptionsInput = {}
+): AsyncGenerator<WalkerEntry, void, undefined> {
+  const roots = sanitizeRoots(dirPath);
+  const finalOptions = sanitizeParallelOptions(options);
+  // What the workers get: everything but the options only used here
+  const { signal: _signal, throwOnAbort: _throwOnAbort, onProgress: _onProgress, workers: _workers, ...task } = options;
+
+  return walkInParallel(roots, finalOptions, task);
+}
+
+async function* walkInParallel(
+  roots: string[],
+  options: WalkerOptions & { workers: number },
+  task: ParallelWalkerOptionsInput
+): AsyncGenerator<WalkerEntry, void, undefined> {
+  const pool = new WorkerPool(options.workers);
+  const subtrees: Subtree[] = [];
+  const events: Array<WalkerEntry | Subtree> = [];
+  let nextId = 0;
+
+  try {
+    // 1. Read the roots here; directories below them are collected, not entered
+    for await (const entry of walk(roots, {
+      ...options,
+      maxDepth: 0,
+      onProgress: null,
+      prune: dirEntry => {
+        if (options.maxDepth >= 1) {
+          const subtree: Subtree = {
+            id: nextId++,
+            dir: {
+              root: dirEntry.root,
+              path: dirEntry.path,
+              relativePath: dirEntry.relativePath,
+              absolutePath: path.resolve(dirEntry.path),
+              depth: 1
+            },
+            batches: [],
+            done: false,
+            error: null,
+            entry: null,
+            worker: null
+          };
+          subtrees.push(subtree);
+          events.push(subtree);
+        }
+        return false;
+      }
+    })) {
+      const last = events[events.length - 1];
+      if (last && isSubtree(last) && last.dir.path === entry.path) {
+        // A directory's own entry goes before ('pre') or after ('post') its contents
+        if (options.directoryOrder === 'post') {
+          last.entry = entry;
+        } else {
+          events.splice(events.length - 1, 0, entry);
+        }
+      } else {
+        events.push(entry);
+      }
+    }
+
+    // 2. Hand every subtree to the pool. When following symlinks, each worker
+    // knows the subtree's root as its ancestor, treats the roots and the other
+    // subtrees as already visited and, with 'dedupe', a subtree reached twice
+    // (through a symlink) is only walked once.
+    const keys = options.followSymlinks ? await realPaths(subtrees.map(s => s.dir.path)) : [];
+    const parents = options.followSymlinks ? await realPaths(subtrees.map(s => path.dirname(s.dir.path))) : [];
+    const visited = new Set(options.followSymlinks ? await realPaths(roots) : []);
+    const owners = new Map<string, Subtree>();
+    for (const subtree of subtrees) {
+      const key = keys[subtree.id];
+      if (key === undefined) continue;
+
+      subtree.dir.ancestors = [parents[subtree.id]];
+      if (!owners.has(key)) {
+        owners.set(key, subtree);
+      } else if (options.symlinkPolicy === 'dedupe') {
+        subtree.done = true;
+      }
+    }
+
+    for (const subtree of subtrees) {
+      if (subtree.done) continue;
+      const own = keys[subtree.id];
+      pool.submit(subtree, {
+        type: 'walk',
+        id: subtree.id,
+        dir: subtree.dir,
+        visited: [...visited, ...owners.keys()].filter(key => key !== own),
+        options: task
+      });
+    }
+
+    // 3. Yield in walk order when sorting, otherwise as batches arrive
+    const output = options.sort ? inOrder(events, pool, options) : asAvailable(events, subtrees, pool, options);
+    for await (const entry of output) {
+      if (options.signal?.aborted) break;
+      yield entry;
+
+      // Progress callback
+      if (options.onProgress) {
+        options.onProgress(entry);
+      }
+    }
+
+    if (options.signal?.aborted && options.throwOnAbort) {
+      throw createAbortError(options.signal);
+    }
+  } finally {
+    await pool.close();
+  }
+}
+
+function isSubtree(event: WalkerEntry | Subtree): event is Subtree {
+  return 'batches' in event;
+}
+
+/**
+ * Yields root entries and whole subtrees in the order the sequential walker would
+ */
+async function* inOrder(
+  events: Array<WalkerEntry | Subtree>,
+  pool: WorkerPool,
+  options: WalkerOptions
+): AsyncGenerator<WalkerEntry, void, undefined> {
+  for (const event of events) {
+    if (!isSubtree(event)) {
+      yield event;
+      continue;
+    }
+
+    while (true) {
+      const batch = event.batches.shift();
+      if (batch) {
+        pool.ack(event);
+        for (const entry of batch) yield deserializeEntry(entry);
+      } else if (event.error) {
+        throw event.error;
+      } else if (event.done) {
+        break;
+      } else {
+        await pool.nextUpdate(options.signal);
+        if (options.signal?.aborted) return;
+      }
+    }
+    if (event.entry) yield event.entry;
+  }
+}
+
+/**
+ * Yields root entries first, then each batch from any worker as soon as it arrives
+ */
+async function* asAvailable(
+  events: Array<WalkerEntry | Subtree>,
+  subtrees: Subtree[],
+  pool: WorkerPool,
+  options: WalkerOptions
+): AsyncGenerator<WalkerEntry, void, undefined> {
+  for (const event of events) {
+    if (!isSubtree(event)) yield event;
+  }
+
+  const remaining = new Set(subtrees);
+  while (remaining.size > 0) {
+    let progressed = false;
+
+    for (const subtree of remaining) {
+      const batch = subtree.batches.shift();
+      if (batch) {
+        progressed = true;
+        pool.ack(subtree);
+        for (const entry of batch) yield deserializeEntry(entry);
+      } else if (subtree.error) {
+        throw subtree.error;
+      } else if (subtree.done) {
+        progressed = true;
+        remaining.delete(subtree);
+        if (subtree.entry) yield subtree.entry;
+      }
+    }
+
+    if (!progressed) {
+      await pool.nextUpdate(options.signal);
+      if (options.signal?.aborted) return;
+    }
+  }
+}
+
+/**
+ * Resolves paths for cycle protection, skipping those that cannot be resolved
+ */
+async function realPaths(paths: string[]): Promise<string[]> {
+  return Promise.all(paths.map(p => fs.realpath(p).catch(() => p)));
+}
+
+/**
+ * A fixed number of workers, each walking one subtree at a time
+ */
+class WorkerPool {
+  private readonly idle: Worker[] = [];
+  private readonly queue: Array<{ subtree: Subtree; task: WorkerTask }> = [];
+  private readonly running = new Map<Worker, Subtree>();
+  private readonly workers: Worker[] = [];
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly size: number) {}
+
+  submit(subtree: Subtree, task: WorkerTask): void {
+    this.queue.push({ subtree, task });
+    this.schedule();
+  }
+
+  /**
+   * Lets a worker send more entries for a subtree
+   */
+  ack(subtree: Subtree): void {
+    if (subtree.worker && !subtree.done) {
+      subtree.worker.postMessage({ type: 'ack', id: subtree.id } satisfies WorkerRequest);
+    }
+  }
+
+  /**
+   * Waits until any subtree receives entries, finishes, or the signal aborts
+   */
+  nextUpdate(signal: AbortSignal | null): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => resolve();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stops every worker: each aborts its walk and closes the directories it has open
+   */
+  async close(): Promise<void> {
+    this.queue.length = 0;
+    await Promise.all(this.workers.map(worker => {
+      const exited = once(worker, 'exit');
+      worker.postMessage({ type: 'close' } satisfies WorkerRequest);
+      return exited;
+    }));
+    this.notify();
+  }
+
+  private schedule(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workers.length < this.size ? this.spawn() : null);
+      if (!worker) return;
+
+      const { subtree, task } = this.queue.shift()!;
+      subtree.worker = worker;
+      this.running.set(worker, subtree);
+      worker.postMessage(task satisfies WorkerRequest);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('./worker.js', import.meta.url));
+    this.workers.push(worker);
+
+    worker.on('message', (message: WorkerResponse) => {
+      const subtree = this.running.get(worker);
+      if (!subtree || subtree.id !== message.id) return;
+
+      if (message.type === 'entries') {
+        subtree.batches.push(message.entries);
+      } else {
+        if (message.type === 'error') {
+          subtree.error = deserializeError(message.error, subtree.dir.path);
+        }
+        subtree.done = true;
+        subtree.worker = null;
+        this.running.delete(worker);
+        this.idle.push(worker);
+        this.schedule();
+      }
+      this.notify();
+    });
+
+    // A worker that dies takes its subtree down with it; another takes its place
+    worker.on('error', err => {
+      const subtree = this.running.get(worker);
+      if (subtree) {
+        subtree.error = err;
+        subtree.done = true;
+        this.running.delete(worker);
+      }
+      this.notify();
+    });
+    worker.on('exit', () => {
+      this.workers.splice(this.workers.indexOf(worker), 1);
+      this.running.delete(worker);
+      this.schedule();
+    });
+
+    return worker;
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) resolve();
+  }
+}
+
+/**
+ * Flattens an entry so it can be posted from a worker
+ */
+export function serializeEntry(entry: WalkerEntry): SerializedEntry {
+  const serialized: SerializedEntry = {
+    path: entry.path,
+    depth: entry.depth,
+    name: entry.name,
+    relativePath: entry.relativePath,
+    root: entry.root,
+    parentPath: entry.parentPath,
+    type: entryTypeOf(entry.dirent)
+  };
+  if (entry.stats) serialized.stats = serializeStats(entry.stats);
+  if (entry.isDirectoryLink !== undefined) serialized.isDirectoryLink = entry.isDirectoryLink;
+  if (entry.linkTarget !== undefined) serialized.linkTarget = entry.linkTarget;
+  if (entry.isBrokenLink !== undefined) serialized.isBrokenLink = entry.isBrokenLink;
+  if (entry.targetStats) serialized.targetStats = serializeStats(entry.targetStats);
+  return serialized;
+}
+
+/**
+ * Rebuilds an entry posted by a worker, with a working `dirent` and `stats`
+ */
+function deserializeEntry(serialized: SerializedEntry): WalkerEntry {
+  const { type, stats, targetStats, ...fields } = serialized;
+  const entry: WalkerEntry = { ...fields, dirent: createDirent(serialized.name, serialized.parentPath, type) };
+
+  if (stats) entry.stats = deserializeStats(stats);
+  if (targetStats) entry.targetStats = deserializeStats(targetStats);
+  return entry;
+}
+
+export function serializeError(err: unknown): SerializedError {
+  const { name, message, code, path: errorPath } = err as Error & { code?: string; path?: string };
+  return { name, message, code, path: errorPath };
+}
+
+/**
+ * Rebuilds a worker's error as the same class, with the same message, that
+ * `walker()` would have thrown
+ */
+function deserializeError(serialized: SerializedError, subtreePath: string): Error {
+  const { name, message, code, path: errorPath } = serialized;
+  switch (name) {
+    case 'FStreamWalkError':
+      return new FStreamWalkError(message, { code, path: errorPath });
+    case 'PermissionError':
+      return new PermissionError(message, errorPath ?? subtreePath);
+    case 'PathNotFoundError':
+      return new PathNotFoundError(message, errorPath ?? subtreePath);
+    case 'InvalidPathError':
+      return new InvalidPathError(message, errorPath ?? subtreePath);
+    case 'SymlinkLoopError':
+      return new SymlinkLoopError(message, errorPath ?? subtreePath);
+    case 'AbortError':
+      return new AbortError(message);
+    case 'TypeError':
+      return new TypeError(message);
+    case 'RangeError':
+      return new RangeError(message);
+    default: {
+      // System errors are rethrown as they are, with their code and path
+      const err = Object.assign(new Error(message), { code, path: errorPath });
+      if (name !== 'Error') err.name = name;
+      return err;
+    }
+  }
+}
+
+function serializeStats(stats: Stats): Record<string, number> {
+  const serialized: Record<string, number> = {};
+  for (const [key, value] of Object.entries(stats)) {
+    if (typeof value === 'number') serialized[key] = value;
+  }
+  return serialized;
+}
+
+function deserializeStats(serialized: Record<string, number>): Stats {
+  // Stats methods only read the numeric fields; dates are rebuilt from them
+  const stats = Object.assign(Object.create(Stats.prototype) as Stats, serialized);
+  for (const key of ['atime', 'mtime', 'ctime', 'birthtime'] as const) {
+    Object.defineProperty(stats, key, {
+      value: new Date(serialized[`${key}Ms`]),
+      enumerable: true,
+      writable: true,
+      configurable: true
+    });
+  }
+  return stats;
+}
+
+function createDirent(name: string, parentPath: string, type: DirentType): Dirent {
+  return {
+    name,
+    parentPath,
+    path: parentPath,
+    isFile: () => type === 'file',
+    isDirectory: () => type === 'directory',
+    isSymbolicLink: () => type === 'symlink',
+    isBlockDevice: () => type === 'block',
+    isCharacterDevice: () => type === 'character',
+    isFIFO: () => type === 'fifo',
+    isSocket: () => type === 'socket'
+  } as Dirent;
+}
@@ -0,0 +1,49 @@
+import { Readable } from 'node:stream';
+import { ReadableStream } from 'node:stream/web';
+import streamWalker from './index.js';
+import type { WalkerEntry, WalkerOptionsInput } from './options.js';
+
+/**
+ * Walks a directory as an object-mode Node.js `Readable`.
+ *
+ * Entries are pulled from the walker only as the stream is read, so a
+ * slow consumer pauses the walk. Destroying the stream stops the walker,
+ * which closes any open directory handles.
+ *
+ * @example
+ * await pipeline(toNodeStream('./src'), toJsonLines, res);
+ */
+export function toNodeStream(dirPath: string | string[], options: WalkerOptionsInput = {}): Readable {
+  return Readable.from(streamWalker(dirPath, options), { objectMode: true });
+}
+
+/**
+ * Walks a directory as a WHATWG `ReadableStream`.
+ *
+ * The walker is advanced once per `pull`, so nothing is read ahead of the
+ * stream's queue. Cancelling the stream stops the walker, which closes
+ * any open directory handles.
+ *
+ * @example
+ * for await (const entry of toWebStream('./src')) console.log(entry.path);
+ */
+export function toWebStream(
+  dirPath: string | string[],
+  options: WalkerOptionsInput = {}
+): ReadableStream<WalkerEntry> {
+  const iterator = streamWalker(dirPath, options);
+
+  return new ReadableStream<WalkerEntry>({
+    async pull(controller) {
+      const next = await iterator.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(next.value);
+      }
+    },
+    async cancel() {
+      await iterator.return();
+    }
+  }, { highWaterMark: 1 });
+}
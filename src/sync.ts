@@ -0,0 +1,358 @@
+import fs from 'node:fs';
+import type { Dir, Dirent } from 'node:fs';
+import { match } from './utils.js';
+import {
+  WalkInterrupt,
+  checkHardLink,
+  createAbortError,
+  createBudget,
+  filterSubject,
+  handleError,
+  isSkippedHardLink,
+  lineageOf,
+  markVisited,
+  notifyDirectory,
+  reportCycle,
+  resolveEntrySteps,
+  sortEntries,
+  spendBudget,
+  startCursor
+} from './core.js';
+import type { EntryStep, PendingDirectory, ResolvedEntry } from './core.js';
+import type { FilterContext } from './utils.js';
+import type { WalkerOptions, WalkerEntry, DirectorySummary, WalkStatus, WalkLimit } from './options.js';
+
+/**
+ * An opened directory whose entries are being consumed
+ */
+interface SyncDirectoryFrame extends PendingDirectory {
+  handle: Dir;
+  entries: Iterator<Dirent>;
+  // Entry for this directory itself, held back until it is left ('post' order)
+  entry: WalkerEntry | null;
+  summary: DirectorySummary;
+  // Ancestors of its subdirectories: its own ancestors and its real path
+  lineage?: string[];
+}
+
+/**
+ * Synchronous Directory Walker Generator
+ *
+ * Mirrors `walk()` step for step with `opendirSync` and `statSync`. Each
+ * entry is resolved by the same `resolveEntrySteps()`, with its stat and
+ * filter steps performed synchronously, and the error handling and cycle
+ * checks are shared too. There is
+ * no I/O to overlap, so `concurrency` has no effect, and filters must
+ * return a boolean rather than a Promise.
+ */
+export function* walkSync(
+  roots: string[],
+  options: WalkerOptions,
+  status: Pick<WalkStatus, 'state' | 'limit'> = { state: 'running', limit: null }
+): Generator<WalkerEntry, void, undefined> {
+  // Directories already traversed, shared by every root
+  const visited = options.followSymlinks || roots.length > 1 ? new Set<string>() : null;
+  const stack: SyncDirectoryFrame[] = [];
+  const queue: PendingDirectory[] = startCursor(roots).queue;
+  const inodes = new Set<string>();
+  const budget = createBudget(options);
+  let limit: WalkLimit | null = null;
+
+  try {
+    while (stack.length > 0 || queue.length > 0) {
+      // 1. Abort Check
+      if (options.signal?.aborted) {
+        status.state = 'aborted';
+        if (options.throwOnAbort) throw createAbortError(options.signal);
+        return;
+      }
+
+      // Budget Check
+      limit = limit ?? (Date.now() > budget.deadline ? 'timeLimitMs' : null);
+      if (limit) {
+        status.state = 'limited';
+        status.limit = limit;
+        return;
+      }
+
+      let ready: WalkerEntry | null = null;
+      let entered: SyncDirectoryFrame | null = null;
+      let left: SyncDirectoryFrame | null = null;
+
+      // 2. Open the next queued directory once the stack has drained
+      if (stack.length === 0) {
+        limit = spendBudget(budget, 0, queue[0].depth <= options.maxDepth ? 1 : 0, options);
+        if (limit) continue;
+
+        entered = enterDirectorySync(queue.shift()!, options, visited);
+        if (entered) stack.push(entered);
+        notifyDirectory(null, entered, options);
+        continue;
+      }
+
+      const frame = stack[stack.length - 1];
+
+      try {
+        // 3. Read and resolve the next entry
+        const next = frame.entries.next();
+        if (next.done) {
+          // Directory finished: release its post-order entry
+          stack.pop();
+          closeDirectorySync(frame.handle);
+          left = frame;
+          ready = frame.entry;
+        } else {
+          frame.summary.childCount++;
+          const { entry, child, inode } = resolveEntrySync(frame, next.value, options);
+          const descends = child !== null && options.strategy === 'dfs' && child.depth <= options.maxDepth;
+          const yields = entry !== null && !isSkippedHardLink(inode, inodes, options);
+          limit = spendBudget(budget, yields ? 1 : 0, descends ? 1 : 0, options);
+          if (limit) continue;
+
+          const isPostOrder = child !== null && options.directoryOrder === 'post';
+          ready = isPostOrder ? null : entry;
+
+          // Hard links: checked in walk order so the first path always wins
+          if (ready && options.dedupeHardLinks) {
+            ready = checkHardLink(ready, inode, inodes, options);
+          }
+
+          if (child) {
+            // Descend now (dfs) or once shallower levels are done (bfs)
+            if (options.strategy === 'bfs') {
+              queue.push(child);
+            } else {
+              entered = enterDirectorySync(child, options, visited);
+              if (entered) {
+                entered.entry = isPostOrder ? entry : null;
+                stack.push(entered);
+              } else if (isPostOrder) {
+                ready = entry;
+              }
+            }
+          }
+        }
+      } catch (err) {
+        if (err instanceof WalkInterrupt) throw err;
+        const error = handleError(err, { path: frame.path, depth: frame.depth, operation: 'readdir' }, options);
+
+        // Give up on the rest of this directory and carry on with its parent
+        stack.pop();
+        closeDirectorySync(frame.handle);
+        frame.summary.errors.push(error);
+        left = frame;
+        ready = frame.entry;
+      }
+
+      notifyDirectory(left, null, options);
+
+      if (ready) {
+        yield ready;
+
+        // Progress callback
+        if (options.onProgress) {
+          options.onProgress(ready);
+        }
+      }
+
+      notifyDirectory(null, entered, options);
+    }
+
+    status.state = 'completed';
+  } catch (err) {
+    if (err instanceof WalkInterrupt && err.error === null) {
+      // onError chose to abort: end the walk quietly
+      status.state = 'aborted';
+      return;
+    }
+
+    if (status.state === 'running') status.state = 'failed';
+    throw err instanceof WalkInterrupt ? err.error : err;
+  } finally {
+    // Still running here means the consumer stopped iterating early
+    if (status.state === 'running') status.state = 'stopped';
+
+    for (const frame of stack) {
+      closeDirectorySync(frame.handle);
+    }
+  }
+}
+
+/**
+ * Opens a directory, applying depth, symlink cycle and overlap checks.
+ * Returns null when the directory should not be traversed.
+ */
+function enterDirectorySync(
+  dir: PendingDirectory,
+  options: WalkerOptions,
+  visited: Set<string> | null
+): SyncDirectoryFrame | null {
+  // Depth Check
+  if (dir.depth > options.maxDepth) return null;
+
+  let realPath: string | null = null;
+  let realPathError: unknown = null;
+  if (options.followSymlinks) {
+    try {
+      realPath = fs.realpathSync(dir.path);
+    } catch (err) {
+      realPathError = err;
+    }
+  }
+
+  let handle: Dir;
+  let entries: Iterator<Dirent>;
+  let device = dir.device;
+  try {
+    handle = fs.opendirSync(dir.path);
+  } catch (err) {
+    handleError(err, { path: dir.path, depth: dir.depth, operation: 'opendir' }, options);
+    return null;
+  }
+
+  try {
+    // Roots record their device; subdirectories inherit it
+    if (options.oneFileSystem && device === undefined) {
+      device = fs.statSync(dir.path).dev;
+    }
+    entries = readEntriesSync(handle, options);
+  } catch (err) {
+    closeDirectorySync(handle);
+    handleError(err, { path: dir.path, depth: dir.depth, operation: 'opendir' }, options);
+    return null;
+  }
+
+  // Symlink Cycle Protection and overlapping roots protection
+  if (visited) {
+    const revisit = markVisited(visited, dir, realPath, options);
+    if (revisit) {
+      closeDirectorySync(handle);
+      if (revisit === 'cycle') reportCycle(dir, options);
+      return null;
+    }
+    if (realPathError) {
+      try {
+        handleError(realPathError, { path: dir.path, depth: dir.depth, operation: 'realpath' }, options);
+      } catch (err) {
+        closeDirectorySync(handle);
+        throw err;
+      }
+    }
+  }
+
+  return {
+    root: dir.root,
+    path: dir.path,
+    relativePath: dir.relativePath,
+    absolutePath: dir.absolutePath,
+    depth: dir.depth,
+    device,
+    ancestors: dir.ancestors,
+    lineage: lineageOf(dir, realPath, options),
+    handle,
+    entries,
+    entry: null,
+    summary: { childCount: 0, errors: [], mountPoints: [] }
+  };
+}
+
+/**
+ * Iterates a directory's entries, collecting and sorting them first if requested
+ */
+function readEntriesSync(handle: Dir, options: WalkerOptions): Iterator<Dirent> {
+  if (!options.sort) {
+    return {
+      next: () => {
+        const dirent = handle.readSync();
+        return dirent ? { done: false, value: dirent } : { done: true, value: undefined };
+      }
+    };
+  }
+
+  const entries: Dirent[] = [];
+  let dirent: Dirent | null;
+  while ((dirent = handle.readSync()) !== null) {
+    entries.push(dirent);
+  }
+  sortEntries(entries, options.sort);
+  return entries.values();
+}
+
+/**
+ * Closes a directory handle, ignoring errors if it was already closed
+ */
+function closeDirectorySync(handle: Dir): void {
+  try {
+    handle.closeSync();
+  } catch {
+    // Already closed
+  }
+}
+
+/**
+ * Resolves whether an entry is a directory, whether it passes the filters,
+ * and builds the entry to yield (with stats if requested)
+ */
+function resolveEntrySync(
+  frame: SyncDirectoryFrame,
+  dirent: Dirent,
+  options: WalkerOptions
+): ResolvedEntry {
+  const steps = resolveEntrySteps(frame, dirent, options);
+  let next = steps.next();
+  while (!next.done) {
+    let result: unknown;
+    try {
+      result = performStepSync(next.value, options);
+    } catch (err) {
+      next = steps.throw(err);
+      continue;
+    }
+    next = steps.next(result);
+  }
+  return next.value;
+}
+
+/**
+ * Performs one step of resolving an entry with the synchronous fs calls
+ */
+function performStepSync(step: EntryStep, options: WalkerOptions): unknown {
+  switch (step.op) {
+    case 'stat':
+      return fs.statSync(step.path);
+    case 'lstat':
+      return fs.lstatSync(step.path);
+    case 'readlink':
+      return fs.readlinkSync(step.path);
+    case 'filter':
+      return applyFiltersSync(step.context, options);
+  }
+}
+
+/**
+ * Logic for include/exclude precedence
+ */
+function applyFiltersSync(context: FilterContext, options: WalkerOptions): boolean {
+  const subject = filterSubject(context, options);
+
+  if (options.exclude && settleSync(match(subject, options.exclude, context))) {
+    return false;
+  }
+  if (options.include && !settleSync(match(subject, options.include, context))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Rejects filter results that are still pending. This is a usage error,
+ * so it ends the walk regardless of `suppressErrors` and `onError`.
+ */
+function settleSync(result: boolean | Promise<boolean>): boolean {
+  if (typeof result !== 'boolean') {
+    // Avoid an unhandled rejection from the abandoned Promise
+    result.catch(() => {});
+    throw new WalkInterrupt(new TypeError('walkSync filters must return a boolean, not a Promise'));
+  }
+  return result;
+}
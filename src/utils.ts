@@ -1,20 +1,72 @@
 import path from 'node:path';
+import type { Dirent, Stats } from 'node:fs';
+import type { EntryType } from './options.js';
 
 /**
  * Joins paths (Cross-platform wrapper)
  */
 export const joinPath = path.join;
 
-export type PatternType = string | RegExp | ((fileName: string) => boolean) | null | undefined;
+/**
+ * Converts platform separators to forward slashes
+ */
+export function toPosixPath(filePath: string): string {
+  return path.sep === '/' ? filePath : filePath.split(path.sep).join('/');
+}
+
+/**
+ * Classifies a directory entry, or the stats of a file, by kind
+ */
+export function entryTypeOf(file: Dirent | Stats): EntryType | 'unknown' {
+  if (file.isFile()) return 'file';
+  if (file.isDirectory()) return 'directory';
+  if (file.isSymbolicLink()) return 'symlink';
+  if (file.isBlockDevice()) return 'block';
+  if (file.isCharacterDevice()) return 'character';
+  if (file.isFIFO()) return 'fifo';
+  if (file.isSocket()) return 'socket';
+  return 'unknown';
+}
+
+/**
+ * Checks an entry against the `types` option (null accepts every kind)
+ */
+export function matchesEntryType(file: Dirent | Stats, types: ReadonlySet<EntryType> | null): boolean {
+  if (types === null) return true;
+  const type = entryTypeOf(file);
+  return type !== 'unknown' && types.has(type);
+}
+
+/**
+ * Everything known about an entry when filters run
+ */
+export interface FilterContext {
+  name: string;
+  path: string;
+  relativePath: string;
+  absolutePath: string;
+  depth: number;
+  dirent: Dirent;
+  signal: AbortSignal | null;
+}
+
+export type FilterFunction = (fileName: string, context: FilterContext) => boolean | Promise<boolean>;
+
+export type PatternType = string | RegExp | FilterFunction | null | undefined;
 
 /**
  * Checks if a filename matches a pattern.
  *
- * @param fileName - The name of the file (not full path)
+ * @param fileName - The name of the file, or its relative path when matching paths
  * @param pattern - The rule to match against
- * @returns boolean
+ * @param context - Entry details passed to function patterns
+ * @returns boolean, or a Promise for async function patterns
  */
-export function match(fileName: string, pattern: PatternType): boolean {
+export function match(
+  fileName: string,
+  pattern: PatternType,
+  context?: FilterContext
+): boolean | Promise<boolean> {
   // BUG-006 fixed: Only treat null and undefined as "match all"
   if (pattern === null || pattern === undefined) return true;
 
@@ -27,7 +79,7 @@ export function match(fileName: string, pattern: PatternType): boolean {
     }
     return fileName.includes(pattern);
   }
-  if (typeof pattern === 'function') return pattern(fileName);
+  if (typeof pattern === 'function') return pattern(fileName, context!);
 
   // BUG-005 fixed: Throw error for invalid pattern types
   throw new TypeError(
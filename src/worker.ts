@@ -0,0 +1,88 @@
+import { parentPort } from 'node:worker_threads';
+import { walk } from './core.js';
+import { sanitizeParallelOptions } from './options.js';
+import { serializeEntry, serializeError, BATCH_SIZE, BATCH_WINDOW } from './parallel.js';
+import type { SerializedEntry, WorkerRequest, WorkerResponse, WorkerTask } from './parallel.js';
+
+if (!parentPort) {
+  throw new Error('worker.js must be run by parallelWalker');
+}
+const port = parentPort;
+
+let inFlight = 0;
+let closing = false;
+let wake: (() => void) | null = null;
+let current: Promise<void> = Promise.resolve();
+let controller: AbortController | null = null;
+
+port.on('message', (request: WorkerRequest) => {
+  if (request.type === 'walk') {
+    current = walkSubtree(request);
+  } else if (request.type === 'ack') {
+    inFlight--;
+    release();
+  } else {
+    // Abort the current walk, letting it close its directories before exiting
+    closing = true;
+    controller?.abort();
+    release();
+    void current.finally(() => port.close());
+  }
+});
+
+function release(): void {
+  const resolve = wake;
+  wake = null;
+  resolve?.();
+}
+
+function post(response: WorkerResponse): void {
+  port.postMessage(response);
+}
+
+/**
+ * Walks one subtree, sending entries back in batches and waiting for the
+ * main thread to keep up
+ */
+async function walkSubtree(task: WorkerTask): Promise<void> {
+  // Stops the walk between entries, even while nothing is matching
+  controller = new AbortController();
+  const options = {
+    ...sanitizeParallelOptions(task.options),
+    signal: controller.signal,
+    resumeFrom: {
+      version: 1 as const,
+      roots: [task.dir.root],
+      stack: [],
+      queue: [task.dir],
+      visited: task.visited,
+      inodes: []
+    }
+  };
+  inFlight = 0;
+
+  let batch: SerializedEntry[] = [];
+  const flush = async () => {
+    post({ type: 'entries', id: task.id, entries: batch });
+    batch = [];
+    inFlight++;
+    while (inFlight >= BATCH_WINDOW && !closing) {
+      await new Promise<void>(resolve => {
+        wake = resolve;
+      });
+    }
+  };
+
+  try {
+    for await (const entry of walk([task.dir.root], options)) {
+      batch.push(serializeEntry(entry));
+      if (batch.length >= BATCH_SIZE) await flush();
+      if (closing) return;
+    }
+    if (closing) return;
+    if (batch.length > 0) await flush();
+    post({ type: 'done', id: task.id });
+  } catch (err) {
+    post({ type: 'error', id: task.id, error: serializeError(err) });
+  }
+}
@@ -0,0 +1,222 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import path from 'node:path';
+import type { Dirent, Stats } from 'node:fs';
+import walker from '../src/index.js';
+import type { FileSystemAdapter, DirectoryHandle } from '../src/index.js';
+import { findEmptyDirectories } from '../src/helpers.js';
+import { PathNotFoundError } from '../src/errors.js';
+
+type Node =
+  | { type: 'file'; size: number; ino: number; dev?: number }
+  | { type: 'dir'; dev?: number }
+  | { type: 'link'; target: string };
+
+/**
+ * Minimal in-memory filesystem: absolute paths mapped to nodes
+ */
+function createMemoryFileSystem(tree: Record<string, Node>): FileSystemAdapter & { opened: string[] } {
+  const opened: string[] = [];
+  const inodes = new Map<string, number>();
+  let nextIno = 1000;
+
+  const fail = (code: string, filePath: string): Error =>
+    Object.assign(new Error(`${code}: ${filePath}`), { code });
+
+  const resolve = (filePath: string, seen = 0): string => {
+    if (seen > 8) throw fail('ELOOP', filePath);
+    const node = tree[filePath];
+    if (!node) throw fail('ENOENT', filePath);
+    if (node.type !== 'link') return filePath;
+    return resolve(path.resolve(path.dirname(filePath), node.target), seen + 1);
+  };
+
+  const toDirent = (name: string, node: Node): Dirent => ({
+    name,
+    isFile: () => node.type === 'file',
+    isDirectory: () => node.type === 'dir',
+    isSymbolicLink: () => node.type === 'link'
+  }) as Dirent;
+
+  const toStats = (filePath: string, node: Node): Stats => {
+    if (!inodes.has(filePath)) inodes.set(filePath, nextIno++);
+    const links = node.type === 'file'
+      ? Object.values(tree).filter(other => other === node).length
+      : 1;
+    return {
+      dev: node.type === 'link' ? 1 : node.dev ?? 1,
+      ino: node.type === 'file' ? node.ino : inodes.get(filePath)!,
+      nlink: links,
+      size: node.type === 'file' ? node.size : 0,
+      isFile: () => node.type === 'file',
+      isDirectory: () => node.type === 'dir',
+      isSymbolicLink: () => node.type === 'link'
+    } as Stats;
+  };
+
+  return {
+    opened,
+    async opendir(dirPath: string): Promise<DirectoryHandle> {
+      const real = resolve(dirPath);
+      if (tree[real].type !== 'dir') throw fail('ENOTDIR', dirPath);
+      opened.push(dirPath);
+
+      const children = Object.keys(tree)
+        .filter(p => path.dirname(p) === real && p !== real)
+        .map(p => toDirent(path.basename(p), tree[p]));
+      return {
+        async *[Symbol.asyncIterator]() {
+          yield* children;
+        },
+        async close() {}
+      };
+    },
+    async stat(filePath: string): Promise<Stats> {
+      const real = resolve(filePath);
+      return toStats(real, tree[real]);
+    },
+    async lstat(filePath: string): Promise<Stats> {
+      if (!tree[filePath]) throw fail('ENOENT', filePath);
+      return toStats(filePath, tree[filePath]);
+    },
+    async readlink(filePath: string): Promise<string> {
+      const node = tree[filePath];
+      if (node?.type !== 'link') throw fail('EINVAL', filePath);
+      return node.target;
+    },
+    async realpath(filePath: string): Promise<string> {
+      return resolve(filePath);
+    }
+  };
+}
+
+describe('FileSystemAdapter', () => {
+  const shared: Node = { type: 'file', size: 30, ino: 7 };
+  const tree: Record<string, Node> = {
+    '/mem': { type: 'dir' },
+    '/mem/a.txt': { type: 'file', size: 10, ino: 1 },
+    '/mem/b.js': { type: 'file', size: 20, ino: 2 },
+    '/mem/shared-1.bin': shared,
+    '/mem/shared-2.bin': shared,
+    '/mem/sub': { type: 'dir' },
+    '/mem/sub/c.txt': { type: 'file', size: 5, ino: 3 },
+    '/mem/sub/empty': { type: 'dir' },
+    '/mem/sub/up': { type: 'link', target: '..' },
+    '/mem/mnt': { type: 'dir', dev: 2 },
+    '/mem/mnt/d.txt': { type: 'file', size: 1, ino: 4, dev: 2 }
+  };
+
+  async function collect(options: Parameters<typeof walker>[1], root = '/mem'): Promise<string[]> {
+    const results: string[] = [];
+    for await (const entry of walker(root, options)) {
+      results.push(entry.relativePath);
+    }
+    return results;
+  }
+
+  test('should walk an in-memory filesystem', async () => {
+    const memory = createMemoryFileSystem(tree);
+    const results = await collect({ fs: memory, sort: 'asc' });
+    assert.deepStrictEqual(results, [
+      'a.txt',
+      'b.js',
+      'mnt/d.txt',
+      'shared-1.bin',
+      'shared-2.bin',
+      'sub/c.txt',
+      'sub/up'
+    ]);
+  });
+
+  test('should apply filters, stats and traversal options through the adapter', async () => {
+    const memory = createMemoryFileSystem(tree);
+    const sizes: Array<[string, number | undefined]> = [];
+    for await (const entry of walker('/mem', {
+      fs: memory,
+      sort: 'desc',
+      include: /\.txt$/,
+      withStats: true,
+      strategy: 'bfs'
+    })) {
+      sizes.push([entry.relativePath, entry.stats?.size]);
+    }
+    assert.deepStrictEqual(sizes, [['a.txt', 10], ['sub/c.txt', 5], ['mnt/d.txt', 1]]);
+  });
+
+  test('should follow symlinks and detect cycles through the adapter', async () => {
+    const memory = createMemoryFileSystem(tree);
+    const results = await collect({ fs: memory, sort: 'asc', followSymlinks: true, include: /c\.txt$/ });
+    assert.deepStrictEqual(results, ['sub/c.txt']);
+  });
+
+  test('should read symlinks through the adapter', async () => {
+    const memory = createMemoryFileSystem(tree);
+    for await (const entry of walker('/mem/sub', { fs: memory, withStats: true, statMode: 'lstat', include: 'up' })) {
+      assert.strictEqual(entry.linkTarget, '..');
+      assert.strictEqual(entry.isBrokenLink, false);
+      assert.ok(entry.stats?.isSymbolicLink());
+      assert.ok(entry.targetStats?.isDirectory());
+    }
+  });
+
+  test('should only stat entries for statFilter when it has criteria', async () => {
+    const memory = createMemoryFileSystem(tree);
+    const statted: string[] = [];
+    const counting: FileSystemAdapter = {
+      ...memory,
+      async stat(filePath) {
+        statted.push(filePath);
+        return memory.stat(filePath);
+      }
+    };
+
+    assert.strictEqual((await collect({ fs: counting, statFilter: {} })).length, 7);
+    assert.strictEqual(statted.length, 0);
+
+    const results = await collect({ fs: counting, sort: 'asc', statFilter: { size: { min: 10, max: 20 } } });
+    assert.deepStrictEqual(results, ['a.txt', 'b.js']);
+    assert.ok(statted.includes('/mem/a.txt'));
+  });
+
+  test('should use adapter stats for oneFileSystem and dedupeHardLinks', async () => {
+    const memory = createMemoryFileSystem(tree);
+    const results = await collect({ fs: memory, sort: 'asc', oneFileSystem: true, dedupeHardLinks: 'skip' });
+    assert.deepStrictEqual(results, ['a.txt', 'b.js', 'shared-1.bin', 'sub/c.txt', 'sub/up']);
+    assert.ok(!memory.opened.includes('/mem/mnt'));
+  });
+
+  test('should classify adapter errors like filesystem errors', async () => {
+    const memory = createMemoryFileSystem(tree);
+    await assert.rejects(
+      () => collect({ fs: memory, onError: () => 'throw' }, '/missing'),
+      (err: unknown) => err instanceof PathNotFoundError
+    );
+  });
+
+  test('should let helpers list directories through the adapter', async () => {
+    const memory = createMemoryFileSystem(tree);
+    const empty = await findEmptyDirectories('/mem', { fs: memory });
+    assert.deepStrictEqual(empty, ['/mem/sub/empty']);
+  });
+
+  test('should wrap another adapter', async () => {
+    const memory = createMemoryFileSystem(tree);
+    // A read-only view that hides everything under /mem/sub
+    const hidden: FileSystemAdapter = {
+      ...memory,
+      async opendir(dirPath) {
+        const handle = await memory.opendir(dirPath);
+        return {
+          async *[Symbol.asyncIterator]() {
+            for await (const dirent of handle) {
+              if (dirent.name !== 'sub') yield dirent;
+            }
+          },
+          close: () => handle.close()
+        };
+      }
+    };
+    const results = await collect({ fs: hidden, sort: 'asc' });
+    assert.deepStrictEqual(results, ['a.txt', 'b.js', 'mnt/d.txt', 'shared-1.bin', 'shared-2.bin']);
+  });
+});
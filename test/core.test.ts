@@ -1,9 +1,12 @@
 import { test, describe, before, after } from 'node:test';
 import assert from 'node:assert';
+import { statSync } from 'node:fs';
 import fs from 'node:fs/promises';
+import net from 'node:net';
 import path from 'node:path';
 import os from 'node:os';
 import walker from '../src/index.js';
+import { AbortError, SymlinkLoopError } from '../src/errors.js';
 
 const TMP_DIR = path.join(os.tmpdir(), 'fstream-core-test-' + Date.now());
 
@@ -144,6 +147,34 @@ describe('Core Walker Functionality', () => {
     assert.ok(dirEntries.every(entry => entry.stats?.isDirectory()));
   });
 
+  test('should provide name, relativePath, root and parentPath', async () => {
+    const entries = new Map();
+    for await (const entry of walker(TMP_DIR, { yieldDirectories: true })) {
+      entries.set(entry.relativePath, entry);
+    }
+
+    const delta = entries.get(path.join('subdir', 'delta.txt'));
+    assert.ok(delta);
+    assert.strictEqual(delta.name, 'delta.txt');
+    assert.strictEqual(delta.root, TMP_DIR);
+    assert.strictEqual(delta.parentPath, path.join(TMP_DIR, 'subdir'));
+    assert.strictEqual(delta.path, path.join(delta.root, delta.relativePath));
+
+    const subdir = entries.get('subdir');
+    assert.strictEqual(subdir.parentPath, TMP_DIR);
+  });
+
+  test('should use forward slashes when posixPaths is true', async () => {
+    const results = [];
+    for await (const entry of walker(TMP_DIR, { posixPaths: true })) {
+      results.push(entry);
+    }
+
+    const delta = results.find(entry => entry.name === 'delta.txt');
+    assert.strictEqual(delta?.relativePath, 'subdir/delta.txt');
+    assert.ok(results.every(entry => !entry.path.includes('\\') && !entry.parentPath.includes('\\')));
+  });
+
   test('should provide correct depth for all entries', async () => {
     const depthMap: Map<number, number> = new Map();
 
@@ -157,6 +188,154 @@ describe('Core Walker Functionality', () => {
     assert.ok(depthMap.has(1));
   });
 
+  test('should yield shallow entries first with bfs strategy', async () => {
+    const depths: number[] = [];
+    for await (const entry of walker(TMP_DIR, { strategy: 'bfs', yieldDirectories: true })) {
+      depths.push(entry.depth);
+    }
+
+    assert.deepStrictEqual(depths, [...depths].sort((a, b) => a - b));
+    assert.ok(depths.includes(1));
+  });
+
+  test('should keep sort order within each level with bfs strategy', async () => {
+    const results = [];
+    for await (const entry of walker(TMP_DIR, { strategy: 'bfs', sort: 'desc', yieldDirectories: true })) {
+      results.push(path.relative(TMP_DIR, entry.path));
+    }
+
+    assert.deepStrictEqual(results, [
+      'subdir',
+      'gamma.txt',
+      'beta.txt',
+      'alpha.txt',
+      path.join('subdir', 'delta.txt')
+    ]);
+  });
+
+  test('should respect maxDepth with bfs strategy', async () => {
+    const results = [];
+    for await (const entry of walker(TMP_DIR, { strategy: 'bfs', maxDepth: 0 })) {
+      results.push(entry);
+    }
+
+    assert.strictEqual(results.length, 3);
+    assert.ok(results.every(entry => entry.depth === 0));
+  });
+
+  test('should yield directories after their contents with post order', async () => {
+    const results = [];
+    for await (const entry of walker(TMP_DIR, { yieldDirectories: true, directoryOrder: 'post', sort: 'desc' })) {
+      results.push(entry.relativePath);
+    }
+
+    assert.deepStrictEqual(results, [
+      path.join('subdir', 'delta.txt'),
+      'subdir',
+      'gamma.txt',
+      'beta.txt',
+      'alpha.txt'
+    ]);
+  });
+
+  test('should yield post order directories that are not descended into', async () => {
+    const results = [];
+    for await (const entry of walker(TMP_DIR, { yieldDirectories: true, directoryOrder: 'post', maxDepth: 0 })) {
+      results.push(entry.relativePath);
+    }
+
+    assert.ok(results.includes('subdir'));
+    assert.ok(!results.includes(path.join('subdir', 'delta.txt')));
+  });
+
+  test('should call directory hooks around each directory', async () => {
+    const events: string[] = [];
+    for await (const entry of walker(TMP_DIR, {
+      sort: 'asc',
+      yieldDirectories: true,
+      onEnterDirectory: (dirPath, depth) => events.push(`enter ${path.relative(TMP_DIR, dirPath)} ${depth}`),
+      onLeaveDirectory: (dirPath, depth, summary) => {
+        events.push(`leave ${path.relative(TMP_DIR, dirPath)} ${depth} ${summary.childCount} ${summary.errors.length}`);
+      }
+    })) {
+      events.push(entry.relativePath);
+    }
+
+    assert.deepStrictEqual(events, [
+      'enter  0',
+      'alpha.txt',
+      'beta.txt',
+      'gamma.txt',
+      'subdir',
+      'enter subdir 1',
+      path.join('subdir', 'delta.txt'),
+      'leave subdir 1 1 0',
+      'leave  0 4 0'
+    ]);
+  });
+
+  test('should call directory hooks for directories that are not yielded', async () => {
+    const entered: string[] = [];
+    for await (const _entry of walker(TMP_DIR, {
+      exclude: 'subdir',
+      onEnterDirectory: dirPath => entered.push(path.basename(dirPath))
+    })) {
+      // Just iterate
+    }
+
+    assert.ok(entered.includes('subdir'));
+  });
+
+  test('should yield the same entries with concurrency', async () => {
+    const sequential = [];
+    for await (const entry of walker(TMP_DIR, { yieldDirectories: true })) {
+      sequential.push(entry.path);
+    }
+
+    const concurrent = [];
+    for await (const entry of walker(TMP_DIR, { yieldDirectories: true, concurrency: 4, withStats: true })) {
+      assert.ok(entry.stats);
+      concurrent.push(entry.path);
+    }
+
+    assert.deepStrictEqual(concurrent.sort(), sequential.sort());
+  });
+
+  test('should keep sorted order deterministic with concurrency', async () => {
+    for (const strategy of ['dfs', 'bfs'] as const) {
+      const expected = [];
+      for await (const entry of walker(TMP_DIR, { strategy, sort: 'asc', yieldDirectories: true })) {
+        expected.push(entry.path);
+      }
+
+      const results = [];
+      for await (const entry of walker(TMP_DIR, { strategy, sort: 'asc', yieldDirectories: true, concurrency: 3 })) {
+        results.push(entry.path);
+      }
+
+      assert.deepStrictEqual(results, expected);
+    }
+  });
+
+  test('should not open or yield pruned directories', async () => {
+    const pruned: string[] = [];
+    const results = [];
+    for await (const entry of walker(TMP_DIR, {
+      yieldDirectories: true,
+      prune: dir => {
+        pruned.push(dir.path);
+        return dir.dirent.name === 'subdir';
+      }
+    })) {
+      results.push(path.basename(entry.path));
+    }
+
+    assert.deepStrictEqual(pruned, [path.join(TMP_DIR, 'subdir')]);
+    assert.ok(!results.includes('subdir'));
+    assert.ok(!results.includes('delta.txt'));
+    assert.ok(results.includes('alpha.txt'));
+  });
+
   test('should handle AbortSignal that is already aborted', async () => {
     const controller = new AbortController();
     controller.abort();
@@ -182,4 +361,480 @@ describe('Core Walker Functionality', () => {
     // Should only get one entry before abort
     assert.strictEqual(results.length, 1);
   });
+
+  test('should report completed state after a full walk', async () => {
+    const iterator = walker(TMP_DIR);
+    assert.strictEqual(iterator.state, 'running');
+
+    for await (const _entry of iterator) {
+      // Just iterate
+    }
+
+    assert.strictEqual(iterator.state, 'completed');
+  });
+
+  test('should report aborted state when the signal aborts', async () => {
+    const controller = new AbortController();
+    const iterator = walker(TMP_DIR, { signal: controller.signal });
+
+    for await (const _entry of iterator) {
+      controller.abort();
+    }
+
+    assert.strictEqual(iterator.state, 'aborted');
+  });
+
+  test('should report stopped state when the consumer breaks early', async () => {
+    const iterator = walker(TMP_DIR);
+    for await (const _entry of iterator) {
+      break;
+    }
+
+    assert.strictEqual(iterator.state, 'stopped');
+  });
+
+  test('should report failed state when the walk throws', async () => {
+    const iterator = walker(path.join(TMP_DIR, 'missing'), { suppressErrors: false });
+    await assert.rejects(async () => {
+      for await (const _entry of iterator) {
+        // Just iterate
+      }
+    });
+
+    assert.strictEqual(iterator.state, 'failed');
+  });
+
+  test('should throw AbortError with the signal reason when throwOnAbort is true', async () => {
+    const controller = new AbortController();
+    const reason = new Error('shutting down');
+    const results = [];
+    const iterator = walker(TMP_DIR, { signal: controller.signal, throwOnAbort: true });
+
+    await assert.rejects(async () => {
+      for await (const entry of iterator) {
+        results.push(entry);
+        controller.abort(reason);
+      }
+    }, (err: unknown) => err instanceof AbortError && err.cause === reason);
+
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(iterator.state, 'aborted');
+  });
+
+  test('should walk normally with oneFileSystem on a single device', async () => {
+    const mountPoints: string[] = [];
+    const results = [];
+    for await (const entry of walker(TMP_DIR, {
+      oneFileSystem: true,
+      onLeaveDirectory: (_dirPath, _depth, summary) => mountPoints.push(...summary.mountPoints)
+    })) {
+      results.push(entry.name);
+    }
+
+    assert.strictEqual(results.length, 4);
+    assert.deepStrictEqual(mountPoints, []);
+  });
+
+  test('should report and skip mount points with oneFileSystem', async (t) => {
+    // Look for a directory directly under / that lives on another device (e.g. /proc)
+    const rootDevice = statSync('/').dev;
+    const candidate = ['/proc', '/sys', '/dev'].find(dir => {
+      try {
+        return statSync(dir).dev !== rootDevice;
+      } catch {
+        return false;
+      }
+    });
+    if (!candidate) {
+      t.skip('no mount point available');
+      return;
+    }
+
+    const mountPoints: string[] = [];
+    const results = [];
+    for await (const entry of walker('/', {
+      oneFileSystem: true,
+      yieldDirectories: true,
+      maxDepth: 1,
+      prune: dir => dir.path !== candidate,
+      onLeaveDirectory: (_dirPath, _depth, summary) => mountPoints.push(...summary.mountPoints)
+    })) {
+      results.push(entry.path);
+    }
+
+    assert.deepStrictEqual(mountPoints, [candidate]);
+    assert.ok(results.includes(candidate));
+    assert.ok(!results.some(entryPath => entryPath.startsWith(candidate + '/')));
+  });
+
+  test('should skip or flag repeated hard links with dedupeHardLinks', async () => {
+    const linkDir = path.join(TMP_DIR, '..', path.basename(TMP_DIR) + '-links');
+    await fs.mkdir(linkDir, { recursive: true });
+    await fs.writeFile(path.join(linkDir, 'a.txt'), 'shared');
+    await fs.link(path.join(linkDir, 'a.txt'), path.join(linkDir, 'b.txt'));
+    await fs.writeFile(path.join(linkDir, 'c.txt'), 'single');
+
+    try {
+      const skipped = [];
+      for await (const entry of walker(linkDir, { sort: 'asc', dedupeHardLinks: 'skip' })) {
+        skipped.push(entry.name);
+      }
+      assert.deepStrictEqual(skipped, ['a.txt', 'c.txt']);
+
+      const flagged = [];
+      for await (const entry of walker(linkDir, { sort: 'asc', dedupeHardLinks: 'flag' })) {
+        flagged.push([entry.name, entry.isDuplicateInode]);
+        assert.strictEqual(entry.stats, undefined);
+      }
+      assert.deepStrictEqual(flagged, [['a.txt', false], ['b.txt', true], ['c.txt', false]]);
+    } finally {
+      await fs.rm(linkDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should describe symlinks and their targets with statMode', async () => {
+    const linkDir = path.join(TMP_DIR, '..', path.basename(TMP_DIR) + '-symlinks');
+    await fs.mkdir(linkDir, { recursive: true });
+    await fs.writeFile(path.join(linkDir, 'target.txt'), 'target');
+    await fs.symlink('target.txt', path.join(linkDir, 'good'));
+    await fs.symlink('missing.txt', path.join(linkDir, 'broken'));
+
+    try {
+      const entries = new Map();
+      const errors: unknown[] = [];
+      for await (const entry of walker(linkDir, {
+        withStats: true,
+        statMode: 'lstat',
+        onError: err => void errors.push(err)
+      })) {
+        entries.set(entry.name, entry);
+      }
+
+      const good = entries.get('good');
+      assert.strictEqual(good.linkTarget, 'target.txt');
+      assert.strictEqual(good.isBrokenLink, false);
+      assert.ok(good.stats.isSymbolicLink());
+      assert.ok(good.targetStats.isFile());
+
+      const broken = entries.get('broken');
+      assert.strictEqual(broken.linkTarget, 'missing.txt');
+      assert.strictEqual(broken.isBrokenLink, true);
+      assert.ok(broken.stats.isSymbolicLink());
+      assert.strictEqual(broken.targetStats, undefined);
+      assert.deepStrictEqual(errors, []);
+
+      const target = entries.get('target.txt');
+      assert.strictEqual(target.linkTarget, undefined);
+      assert.strictEqual(target.isBrokenLink, undefined);
+
+      // 'stat' follows the link, so a broken link has no stats to report
+      const followed = new Map();
+      for await (const entry of walker(linkDir, { withStats: true, suppressErrors: false })) {
+        followed.set(entry.name, entry);
+      }
+      assert.ok(followed.get('good').stats.isFile());
+      assert.strictEqual(followed.get('broken').stats, undefined);
+      assert.strictEqual(followed.get('broken').isBrokenLink, true);
+    } finally {
+      await fs.rm(linkDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should allow diamonds but not cycles with symlinkPolicy cycle-only', async () => {
+    const linkDir = path.join(TMP_DIR, '..', path.basename(TMP_DIR) + '-diamond');
+    await fs.mkdir(path.join(linkDir, 'target'), { recursive: true });
+    await fs.writeFile(path.join(linkDir, 'target', 'file.txt'), 'file');
+    await fs.symlink('target', path.join(linkDir, 'a'));
+    await fs.symlink('target', path.join(linkDir, 'b'));
+    await fs.symlink('..', path.join(linkDir, 'target', 'up'));
+
+    try {
+      const collect = async (options: Parameters<typeof walker>[1]) => {
+        const results = [];
+        const errors: unknown[] = [];
+        for await (const entry of walker(linkDir, {
+          sort: 'asc',
+          followSymlinks: true,
+          onError: err => void errors.push(err),
+          ...options
+        })) {
+          results.push(entry.relativePath);
+        }
+        return { results, errors };
+      };
+
+      const deduped = await collect({ symlinkPolicy: 'dedupe' });
+      assert.deepStrictEqual(deduped.results, [path.join('a', 'file.txt')]);
+
+      const diamonds = await collect({ symlinkPolicy: 'cycle-only' });
+      assert.deepStrictEqual(diamonds.results, [
+        path.join('a', 'file.txt'),
+        path.join('b', 'file.txt'),
+        path.join('target', 'file.txt')
+      ]);
+
+      // Each way into target/ ends in a link back to the root
+      assert.strictEqual(diamonds.errors.length, 3);
+      assert.ok(diamonds.errors.every(err => err instanceof SymlinkLoopError));
+      assert.ok(deduped.errors.length === 1 && deduped.errors[0] instanceof SymlinkLoopError);
+
+      await assert.rejects(
+        async () => {
+          for await (const _entry of walker(linkDir, { followSymlinks: true, suppressErrors: false })) {
+            // noop
+          }
+        },
+        (err: unknown) => err instanceof SymlinkLoopError
+      );
+
+      // Ancestors survive a checkpoint
+      const options = { sort: 'asc' as const, followSymlinks: true, symlinkPolicy: 'cycle-only' as const };
+      const first = walker(linkDir, options);
+      const results = [];
+      for await (const entry of first) {
+        results.push(entry.relativePath);
+        break;
+      }
+      const cursor = JSON.parse(JSON.stringify(first.checkpoint()));
+      for await (const entry of walker(linkDir, { ...options, resumeFrom: cursor })) {
+        results.push(entry.relativePath);
+      }
+      assert.deepStrictEqual(results, diamonds.results);
+    } finally {
+      await fs.rm(linkDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should only yield and stat the requested entry types', async () => {
+    const typeDir = path.join(TMP_DIR, '..', path.basename(TMP_DIR) + '-types');
+    await fs.mkdir(path.join(typeDir, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(typeDir, 'sub', 'file.txt'), 'file');
+    await fs.symlink('sub', path.join(typeDir, 'link'));
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(path.join(typeDir, 'sock'), resolve));
+
+    try {
+      const collect = async (options: Parameters<typeof walker>[1]) => {
+        const results = [];
+        for await (const entry of walker(typeDir, { sort: 'asc', ...options })) {
+          results.push(entry.relativePath);
+        }
+        return results;
+      };
+
+      assert.deepStrictEqual(await collect({}), ['link', 'sock', path.join('sub', 'file.txt')]);
+      assert.deepStrictEqual(await collect({ types: ['file'] }), [path.join('sub', 'file.txt')]);
+      assert.deepStrictEqual(await collect({ types: ['socket'] }), ['sock']);
+      assert.deepStrictEqual(await collect({ types: ['directory', 'symlink'] }), ['link', 'sub']);
+      assert.deepStrictEqual(await collect({ types: ['file'], yieldDirectories: true }), ['sub', path.join('sub', 'file.txt')]);
+
+      // Followed links are matched by what they point to
+      assert.deepStrictEqual(
+        await collect({ types: ['file'], followSymlinks: true, symlinkPolicy: 'cycle-only' }),
+        [path.join('link', 'file.txt'), path.join('sub', 'file.txt')]
+      );
+      assert.deepStrictEqual(
+        await collect({ types: ['directory'], followSymlinks: true, symlinkPolicy: 'cycle-only' }),
+        ['link', 'sub']
+      );
+      assert.deepStrictEqual(await collect({ types: ['symlink'], followSymlinks: true }), []);
+
+      // Entries of other kinds never reach filters
+      const seen: string[] = [];
+      await collect({
+        types: ['file'],
+        include: (name: string) => {
+          seen.push(name);
+          return true;
+        }
+      });
+      assert.deepStrictEqual(seen.sort(), ['file.txt', 'sub']);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+      await fs.rm(typeDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should filter entries by statFilter', async () => {
+    const statDir = path.join(TMP_DIR, '..', path.basename(TMP_DIR) + '-statfilter');
+    await fs.mkdir(path.join(statDir, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(statDir, 'small.txt'), 'x');
+    await fs.writeFile(path.join(statDir, 'large.txt'), 'x'.repeat(100));
+    await fs.writeFile(path.join(statDir, 'sub', 'old.txt'), 'x'.repeat(100));
+    await fs.writeFile(path.join(statDir, 'run.sh'), '#!/bin/sh');
+    await fs.chmod(path.join(statDir, 'run.sh'), 0o755);
+    await fs.utimes(path.join(statDir, 'sub', 'old.txt'), new Date('2020-01-01'), new Date('2020-01-01'));
+
+    try {
+      const collect = async (options: Parameters<typeof walker>[1]) => {
+        const results = [];
+        for await (const entry of walker(statDir, { sort: 'asc', ...options })) {
+          results.push(entry);
+        }
+        return results.map(entry => entry.relativePath);
+      };
+
+      assert.deepStrictEqual(
+        await collect({ statFilter: { size: { min: 50 } } }),
+        ['large.txt', path.join('sub', 'old.txt')]
+      );
+      assert.deepStrictEqual(
+        await collect({ statFilter: { size: { min: 50 }, mtime: { after: '2021-01-01' } } }),
+        ['large.txt']
+      );
+      assert.deepStrictEqual(await collect({ statFilter: { mode: { any: '111' } } }), ['run.sh']);
+      assert.deepStrictEqual(
+        await collect({ statFilter: { uid: process.getuid?.() ?? 0, mtime: { before: Date.parse('2021-01-01') } } }),
+        process.platform === 'win32' ? [] : [path.join('sub', 'old.txt')]
+      );
+
+      // Directories that fail the filter are still traversed
+      assert.deepStrictEqual(
+        await collect({ yieldDirectories: true, statFilter: { mtime: { before: '2021-01-01' } } }),
+        [path.join('sub', 'old.txt')]
+      );
+
+      // Only stats requested with withStats are attached
+      for await (const entry of walker(statDir, { statFilter: { size: { max: 1 } } })) {
+        assert.strictEqual(entry.stats, undefined);
+      }
+
+      // Dangling links have no target stats to match, which is not an error
+      await fs.symlink('missing.txt', path.join(statDir, 'broken'));
+      assert.deepStrictEqual(
+        await collect({ statFilter: { size: { min: 0 } }, suppressErrors: false, include: 'broken' }),
+        []
+      );
+    } finally {
+      await fs.rm(statDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should resume from a checkpoint without duplicates or gaps', async () => {
+    const variants = [
+      { sort: 'asc' as const, yieldDirectories: true },
+      { sort: 'asc' as const, yieldDirectories: true, strategy: 'bfs' as const },
+      { sort: 'desc' as const, yieldDirectories: true, directoryOrder: 'post' as const },
+      { sort: 'asc' as const, yieldDirectories: true, concurrency: 3 }
+    ];
+
+    for (const options of variants) {
+      const expected = [];
+      for await (const entry of walker(TMP_DIR, options)) {
+        expected.push(entry.path);
+      }
+
+      for (let cut = 0; cut <= expected.length; cut++) {
+        const results = [];
+        const first = walker(TMP_DIR, options);
+        if (cut > 0) {
+          for await (const entry of first) {
+            results.push(entry.path);
+            if (results.length === cut) break;
+          }
+        }
+
+        // Cursors survive a round trip through JSON
+        const cursor = JSON.parse(JSON.stringify(first.checkpoint()));
+        for await (const entry of walker(TMP_DIR, { ...options, resumeFrom: cursor })) {
+          results.push(entry.path);
+        }
+        assert.deepStrictEqual(results, expected, `cut at ${cut} with ${JSON.stringify(options)}`);
+      }
+    }
+  });
+
+  test('should resume after the last consumed entry has been removed', async () => {
+    const resumeDir = path.join(TMP_DIR, '..', path.basename(TMP_DIR) + '-resume');
+    await fs.mkdir(resumeDir, { recursive: true });
+    for (const name of ['a.txt', 'b.txt', 'c.txt', 'd.txt']) {
+      await fs.writeFile(path.join(resumeDir, name), name);
+    }
+
+    try {
+      const first = walker(resumeDir, { sort: 'asc' });
+      for await (const entry of first) {
+        if (entry.name === 'b.txt') break;
+      }
+      const cursor = first.checkpoint();
+
+      await fs.rm(path.join(resumeDir, 'b.txt'));
+      const rest = [];
+      for await (const entry of walker(resumeDir, { sort: 'asc', resumeFrom: cursor })) {
+        rest.push(entry.name);
+      }
+      assert.deepStrictEqual(rest, ['c.txt', 'd.txt']);
+    } finally {
+      await fs.rm(resumeDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should return an empty cursor once the walk completes', async () => {
+    const iterator = walker(TMP_DIR, { sort: 'asc' });
+    for await (const _entry of iterator) {
+      // noop
+    }
+
+    const rest = [];
+    for await (const entry of walker(TMP_DIR, { sort: 'asc', resumeFrom: iterator.checkpoint() })) {
+      rest.push(entry);
+    }
+    assert.deepStrictEqual(rest, []);
+  });
+
+  test('should stop before exceeding maxEntries and report the limit', async () => {
+    const options = { sort: 'asc' as const, yieldDirectories: true };
+    const limited = walker(TMP_DIR, { ...options, maxEntries: 2 });
+    const results = [];
+    for await (const entry of limited) {
+      results.push(entry.relativePath);
+    }
+    assert.deepStrictEqual(results, ['alpha.txt', 'beta.txt']);
+    assert.strictEqual(limited.state, 'limited');
+    assert.strictEqual(limited.limit, 'maxEntries');
+
+    // The cursor continues right where the limit stopped the walk
+    for await (const entry of walker(TMP_DIR, { ...options, resumeFrom: limited.checkpoint() })) {
+      results.push(entry.relativePath);
+    }
+    assert.deepStrictEqual(results, ['alpha.txt', 'beta.txt', 'gamma.txt', 'subdir', path.join('subdir', 'delta.txt')]);
+
+    // A walk that fits its budget exactly is complete
+    const exact = walker(TMP_DIR, { ...options, maxEntries: 5 });
+    for await (const _entry of exact) {
+      // noop
+    }
+    assert.strictEqual(exact.state, 'completed');
+    assert.strictEqual(exact.limit, null);
+  });
+
+  test('should stop before reading more than maxDirectories', async () => {
+    const limited = walker(TMP_DIR, { sort: 'asc', yieldDirectories: true, maxDirectories: 1 });
+    const results = [];
+    for await (const entry of limited) {
+      results.push(entry.relativePath);
+    }
+    assert.deepStrictEqual(results, ['alpha.txt', 'beta.txt', 'gamma.txt']);
+    assert.strictEqual(limited.state, 'limited');
+    assert.strictEqual(limited.limit, 'maxDirectories');
+
+    // Directories beyond maxDepth are never read, so they do not count
+    const shallow = walker(TMP_DIR, { maxDepth: 0, maxDirectories: 1 });
+    for await (const _entry of shallow) {
+      // noop
+    }
+    assert.strictEqual(shallow.state, 'completed');
+  });
+
+  test('should stop once timeLimitMs has elapsed', async () => {
+    const limited = walker(TMP_DIR, { timeLimitMs: 20 });
+    const results = [];
+    for await (const entry of limited) {
+      results.push(entry);
+      await new Promise(resolve => setTimeout(resolve, 40));
+    }
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(limited.state, 'limited');
+    assert.strictEqual(limited.limit, 'timeLimitMs');
+  });
 });
@@ -0,0 +1,186 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { once } from 'node:events';
+import { spawnSync } from 'node:child_process';
+import { setTimeout as delay } from 'node:timers/promises';
+import { WalkerEmitter } from '../src/emitter.js';
+import type { WalkSummary } from '../src/emitter.js';
+import { FStreamWalkError, PathNotFoundError } from '../src/errors.js';
+import { nodeFileSystem } from '../src/adapter.js';
+import type { FileSystemAdapter } from '../src/adapter.js';
+import type { ErrorContext } from '../src/options.js';
+
+const TMP_DIR = path.join(os.tmpdir(), 'fstream-emitter-test-' + Date.now());
+
+// events.once() rejects on 'error', which these walks emit before 'end'
+function ended(walk: WalkerEmitter): Promise<WalkSummary> {
+  return new Promise(resolve => walk.once('end', resolve));
+}
+
+describe('WalkerEmitter', () => {
+  before(async () => {
+    await fs.mkdir(path.join(TMP_DIR, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(TMP_DIR, 'a.txt'), 'a');
+    await fs.writeFile(path.join(TMP_DIR, 'b.txt'), 'b');
+    await fs.writeFile(path.join(TMP_DIR, 'sub', 'c.txt'), 'c');
+    await fs.symlink(path.join(TMP_DIR, 'missing'), path.join(TMP_DIR, 'broken'));
+  });
+  after(async () => await fs.rm(TMP_DIR, { recursive: true, force: true }));
+
+  test('should emit files, directories and a summary on end', async () => {
+    const files: string[] = [];
+    const directories: string[] = [];
+    const walk = new WalkerEmitter(TMP_DIR, { sort: 'asc' });
+    walk.on('file', entry => files.push(entry.relativePath));
+    walk.on('directory', entry => directories.push(entry.relativePath));
+
+    const [summary] = await once(walk, 'end') as [WalkSummary];
+    assert.deepStrictEqual(files, ['a.txt', 'b.txt', 'broken', path.join('sub', 'c.txt')]);
+    assert.deepStrictEqual(directories, ['sub']);
+    assert.strictEqual(summary.state, 'completed');
+    assert.strictEqual(summary.files, 4);
+    assert.strictEqual(summary.directories, 1);
+    assert.strictEqual(summary.errors, 0);
+    assert.strictEqual(summary.limit, null);
+    assert.ok(summary.durationMs >= 0);
+    assert.strictEqual(walk.state, 'completed');
+  });
+
+  test('should emit skipped errors with their context', async () => {
+    const errors: Array<[FStreamWalkError, ErrorContext | null]> = [];
+    // As if b.txt was deleted between reading the directory and its stat
+    const racyFs: FileSystemAdapter = {
+      ...nodeFileSystem,
+      async stat(filePath) {
+        if (path.basename(filePath) === 'b.txt') {
+          throw Object.assign(new Error(`ENOENT: no such file or directory, stat '${filePath}'`), { code: 'ENOENT' });
+        }
+        return nodeFileSystem.stat(filePath);
+      }
+    };
+    const walk = new WalkerEmitter(TMP_DIR, { withStats: true, fs: racyFs });
+    walk.on('error', (err, context) => errors.push([err, context]));
+
+    const summary = await ended(walk);
+    assert.strictEqual(errors.length, 1);
+    assert.ok(errors[0][0] instanceof PathNotFoundError);
+    assert.strictEqual(errors[0][1]?.operation, 'stat');
+    assert.strictEqual(summary.errors, 1);
+    assert.strictEqual(summary.state, 'completed');
+  });
+
+  test('should emit the error that ends the walk, then end', async () => {
+    const errors: Array<[FStreamWalkError, ErrorContext | null]> = [];
+    const walk = new WalkerEmitter(path.join(TMP_DIR, 'ghost'), { suppressErrors: false });
+    walk.on('error', (err, context) => errors.push([err, context]));
+
+    const summary = await ended(walk);
+    assert.strictEqual(errors.length, 1);
+    assert.ok(errors[0][0] instanceof PathNotFoundError);
+    assert.strictEqual(errors[0][1], null);
+    assert.strictEqual(summary.state, 'failed');
+  });
+
+  test('should still end when nobody listens for the error that ends the walk', async () => {
+    const walk = new WalkerEmitter(path.join(TMP_DIR, 'ghost'), { suppressErrors: false });
+    const summary = await ended(walk);
+    assert.strictEqual(summary.state, 'failed');
+    assert.strictEqual(summary.errors, 1);
+  });
+
+  test('should emit followed directory symlinks as directories', async () => {
+    const link = path.join(TMP_DIR, 'sub-link');
+    await fs.symlink(path.join(TMP_DIR, 'sub'), link);
+    try {
+      const files: string[] = [];
+      const directories: string[] = [];
+      const walk = new WalkerEmitter(TMP_DIR, { sort: 'asc', followSymlinks: true, symlinkPolicy: 'cycle-only' });
+      walk.on('file', entry => files.push(entry.relativePath));
+      walk.on('directory', entry => directories.push(entry.relativePath));
+
+      const summary = await ended(walk);
+      assert.deepStrictEqual(directories, ['sub', 'sub-link']);
+      assert.deepStrictEqual(files, ['a.txt', 'b.txt', 'broken', path.join('sub', 'c.txt'), path.join('sub-link', 'c.txt')]);
+      assert.strictEqual(summary.directories, 2);
+    } finally {
+      await fs.unlink(link);
+    }
+  });
+
+  test('should fail the walk and rethrow when a listener throws', () => {
+    // Run in a child process: the rethrown exception is uncaught by design
+    const emitterUrl = new URL('../src/emitter.js', import.meta.url).href;
+    const script = `
+      import { WalkerEmitter } from ${JSON.stringify(emitterUrl)};
+      const walk = new WalkerEmitter(${JSON.stringify(TMP_DIR)}, { sort: 'asc' });
+      walk.on('error', () => console.log('error event'));
+      walk.on('file', () => { throw new Error('listener bug'); });
+      walk.on('end', summary => console.log(summary.state, summary.files, summary.errors, walk.state));
+    `;
+    const result = spawnSync(process.execPath, ['--input-type=module', '-e', script], { encoding: 'utf8' });
+
+    assert.strictEqual(result.status, 1);
+    assert.strictEqual(result.stdout, 'failed 1 1 failed\n');
+    assert.match(result.stderr, /Error: listener bug/);
+  });
+
+  test('should stop emitting while paused', async () => {
+    const files: string[] = [];
+    const walk = new WalkerEmitter(TMP_DIR, { sort: 'asc' });
+    walk.on('file', entry => {
+      files.push(entry.name);
+      walk.pause();
+    });
+
+    await delay(20);
+    assert.deepStrictEqual(files, ['a.txt']);
+    assert.strictEqual(walk.isPaused, true);
+
+    walk.on('file', () => walk.resume());
+    walk.resume();
+    const [summary] = await once(walk, 'end') as [WalkSummary];
+    assert.strictEqual(files.length, 4);
+    assert.strictEqual(summary.state, 'completed');
+  });
+
+  test('should end with aborted state after abort()', async () => {
+    const files: string[] = [];
+    const walk = new WalkerEmitter(TMP_DIR, { sort: 'asc' });
+    walk.on('file', entry => {
+      files.push(entry.name);
+      walk.abort();
+    });
+
+    const [summary] = await once(walk, 'end') as [WalkSummary];
+    assert.deepStrictEqual(files, ['a.txt']);
+    assert.strictEqual(summary.state, 'aborted');
+  });
+
+  test('should abort a paused walk', async () => {
+    const walk = new WalkerEmitter(TMP_DIR);
+    walk.once('file', () => walk.pause());
+    await delay(20);
+
+    walk.abort();
+    const [summary] = await once(walk, 'end') as [WalkSummary];
+    assert.strictEqual(summary.state, 'aborted');
+    assert.strictEqual(summary.files, 1);
+  });
+
+  test('should follow an external signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const walk = new WalkerEmitter(TMP_DIR, { signal: controller.signal });
+
+    const [summary] = await once(walk, 'end') as [WalkSummary];
+    assert.strictEqual(summary.state, 'aborted');
+    assert.strictEqual(summary.files, 0);
+  });
+
+  test('should validate options synchronously', () => {
+    assert.throws(() => new WalkerEmitter(TMP_DIR, { concurrency: 0 }), /concurrency must be a positive integer/);
+  });
+});
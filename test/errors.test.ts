@@ -1,5 +1,10 @@
-import { test, describe } from 'node:test';
+import { test, describe, before, after } from 'node:test';
 import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import walker, { nodeFileSystem } from '../src/index.js';
+import type { ErrorContext, FileSystemAdapter } from '../src/index.js';
 import {
   FStreamWalkError,
   PermissionError,
@@ -95,6 +100,21 @@ describe('wrapError', () => {
     assert.strictEqual(wrapped.path, '/test/path');
   });
 
+  test('should keep the original error as cause', () => {
+    const originalError = Object.assign(new Error('Original'), { code: 'EACCES' });
+    const wrapped = wrapError(originalError, '/test/path');
+    assert.strictEqual(wrapped.cause, originalError);
+  });
+
+  test('should wrap non-error values thrown by user code', () => {
+    for (const value of [undefined, null]) {
+      const wrapped = wrapError(value as unknown as Error, '/test/path');
+      assert.ok(wrapped instanceof FStreamWalkError);
+      assert.strictEqual(wrapped.message, 'Unknown error');
+      assert.strictEqual(wrapped.path, '/test/path');
+    }
+  });
+
   test('should wrap EPERM error as PermissionError', () => {
     const originalError = Object.assign(new Error('Original'), { code: 'EPERM' });
     const wrapped = wrapError(originalError, '/test/path');
@@ -172,3 +192,117 @@ describe('shouldSuppressError', () => {
     assert.strictEqual(shouldSuppressError(err), true);
   });
 });
+
+describe('Walker onError', () => {
+  const TMP_DIR = path.join(os.tmpdir(), 'fstream-errors-test-' + Date.now());
+
+  before(async () => {
+    await fs.mkdir(TMP_DIR, { recursive: true });
+    await fs.writeFile(path.join(TMP_DIR, 'a.txt'), 'a');
+    await fs.writeFile(path.join(TMP_DIR, 'vanished.txt'), 'v');
+  });
+  after(async () => await fs.rm(TMP_DIR, { recursive: true, force: true }));
+
+  // As if vanished.txt was deleted between reading the directory and its stat
+  const racyFs: FileSystemAdapter = {
+    ...nodeFileSystem,
+    async stat(filePath) {
+      if (path.basename(filePath) === 'vanished.txt') {
+        throw Object.assign(new Error(`ENOENT: no such file or directory, stat '${filePath}'`), { code: 'ENOENT' });
+      }
+      return nodeFileSystem.stat(filePath);
+    }
+  };
+
+  test('should receive wrapped errors with context', async () => {
+    const seen: Array<{ err: FStreamWalkError; context: ErrorContext }> = [];
+    const results: string[] = [];
+    for await (const entry of walker(TMP_DIR, {
+      withStats: true,
+      fs: racyFs,
+      onError: (err, context) => {
+        seen.push({ err, context });
+      }
+    })) {
+      results.push(entry.name);
+    }
+
+    assert.strictEqual(seen.length, 1);
+    assert.ok(seen[0].err instanceof PathNotFoundError);
+    assert.strictEqual(seen[0].context.operation, 'stat');
+    assert.strictEqual(seen[0].context.path, path.join(TMP_DIR, 'vanished.txt'));
+    // Skipped by default: the entry is still yielded, without stats
+    assert.deepStrictEqual(results.sort(), ['a.txt', 'vanished.txt']);
+  });
+
+  test('should throw the wrapped error when onError returns throw', async () => {
+    await assert.rejects(async () => {
+      for await (const _entry of walker(path.join(TMP_DIR, 'ghost'), { onError: () => 'throw' })) {
+        // noop
+      }
+    }, (err: unknown) => err instanceof PathNotFoundError && err.cause instanceof Error);
+  });
+
+  test('should skip errors when onError returns skip even if suppressErrors is false', async () => {
+    const results: unknown[] = [];
+    for await (const entry of walker(TMP_DIR, { withStats: true, fs: racyFs, suppressErrors: false, onError: () => 'skip' })) {
+      results.push(entry);
+    }
+    assert.strictEqual(results.length, 2);
+  });
+
+  test('should end the walk when onError returns abort', async () => {
+    const results: string[] = [];
+    for await (const entry of walker(TMP_DIR, {
+      withStats: true,
+      fs: racyFs,
+      sort: 'desc',
+      onError: () => 'abort'
+    })) {
+      results.push(entry.name);
+    }
+    // vanished.txt sorts before a.txt in descending order
+    assert.deepStrictEqual(results, []);
+  });
+
+  test('should keep walking after a filter throws undefined', async () => {
+    const seen: ErrorContext[] = [];
+    const results: string[] = [];
+    for await (const entry of walker(TMP_DIR, {
+      include: name => {
+        if (name === 'a.txt') throw undefined;
+        return true;
+      },
+      onError: (err, context) => {
+        assert.ok(err instanceof FStreamWalkError);
+        seen.push(context);
+      }
+    })) {
+      results.push(entry.name);
+    }
+    assert.deepStrictEqual(seen.map(context => context.operation), ['filter']);
+    assert.deepStrictEqual(results, ['vanished.txt']);
+  });
+
+  test('should report unreadable directories', async () => {
+    const operations: string[] = [];
+    for await (const _entry of walker(path.join(TMP_DIR, 'ghost'), {
+      onError: (_err, context) => {
+        operations.push(context.operation);
+      }
+    })) {
+      // noop
+    }
+    assert.deepStrictEqual(operations, ['opendir']);
+  });
+
+  test('should reject unknown actions', async () => {
+    await assert.rejects(async () => {
+      for await (const _entry of walker(path.join(TMP_DIR, 'ghost'), {
+        onError: () => 'retry' as unknown as 'skip'
+      })) {
+        // noop
+      }
+    }, /onError must return/);
+  });
+});
@@ -1,6 +1,7 @@
 import { test, describe, before, after } from 'node:test';
 import assert from 'node:assert';
 import fs from 'node:fs/promises';
+import { execFileSync } from 'node:child_process';
 import path from 'node:path';
 import os from 'node:os';
 import {
@@ -164,6 +165,22 @@ describe('Helper Functions', () => {
     assert.ok(largest.length <= 10);
   });
 
+  test('calculateSize should report apparent and unique size for hard links', async () => {
+    const linkDir = path.join(TMP_DIR, 'hardlink-size-test');
+    await fs.mkdir(linkDir);
+    await fs.writeFile(path.join(linkDir, 'original.bin'), '0123456789');
+    await fs.link(path.join(linkDir, 'original.bin'), path.join(linkDir, 'copy.bin'));
+
+    try {
+      const sizeInfo = await calculateSize(linkDir);
+      assert.strictEqual(sizeInfo.fileCount, 2);
+      assert.strictEqual(sizeInfo.totalSize, 20);
+      assert.strictEqual(sizeInfo.uniqueSize, 10);
+    } finally {
+      await fs.rm(linkDir, { recursive: true, force: true });
+    }
+  });
+
   test('calculateSize should return 0 averageSize for empty directory', async () => {
     const emptyDir = path.join(TMP_DIR, 'empty-size-test');
     await fs.mkdir(emptyDir);
@@ -205,4 +222,29 @@ describe('Helper Functions', () => {
 
     await fs.unlink(noExtFile);
   });
+
+  test('file helpers should skip FIFOs and symlinks by default', async () => {
+    const specialDir = path.join(TMP_DIR, 'special');
+    await fs.mkdir(specialDir);
+    await fs.writeFile(path.join(specialDir, 'plain.txt'), 'needle');
+    await fs.symlink('plain.txt', path.join(specialDir, 'alias.txt'));
+    // Reading a FIFO with no writer would block forever
+    execFileSync('mkfifo', [path.join(specialDir, 'pipe.txt')]);
+
+    try {
+      const matches = await searchInFiles(specialDir, 'needle');
+      assert.deepStrictEqual(matches.map(m => path.basename(m.path)), ['plain.txt']);
+      assert.deepStrictEqual(await countFiles(specialDir), 1);
+
+      const all = await findFiles(specialDir, { types: null });
+      assert.deepStrictEqual(all.map(p => path.basename(p)).sort(), ['alias.txt', 'pipe.txt', 'plain.txt']);
+
+      // Followed links to regular files still count as files
+      const followed = await findFiles(specialDir, { followSymlinks: true });
+      assert.deepStrictEqual(followed.map(p => path.basename(p)).sort(), ['alias.txt', 'plain.txt']);
+      assert.strictEqual((await calculateSize(specialDir, { followSymlinks: true })).fileCount, 2);
+    } finally {
+      await fs.rm(specialDir, { recursive: true, force: true });
+    }
+  });
 });
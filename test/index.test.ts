@@ -54,6 +54,28 @@ describe('fstream-walk', () => {
     assert.ok(!result.some(p => p.includes('level1.js')));
   });
 
+  test('should skip entries shallower than minDepth', async () => {
+    const result: string[] = [];
+    for await (const entry of walker(TMP_DIR, { minDepth: 1 })) {
+      result.push(entry.relativePath);
+    }
+    // level1.js, ignored.log, level2.js
+    assert.strictEqual(result.length, 3);
+    assert.ok(!result.includes('root.txt'));
+  });
+
+  test('should combine minDepth with yieldDirectories and maxDepth', async () => {
+    const result: string[] = [];
+    for await (const entry of walker(TMP_DIR, { minDepth: 1, maxDepth: 1, yieldDirectories: true, sort: 'asc' })) {
+      result.push(entry.relativePath);
+    }
+    assert.deepStrictEqual(result, [
+      path.join('sub1', 'ignored.log'),
+      path.join('sub1', 'level1.js'),
+      path.join('sub1', 'sub2')
+    ]);
+  });
+
   test('should filter with include (RegExp)', async () => {
     const result: string[] = [];
     for await (const entry of walker(TMP_DIR, { include: /\.js$/ })) {
@@ -72,6 +94,81 @@ describe('fstream-walk', () => {
     assert.ok(result.length > 0);
   });
 
+  test('should match string and RegExp patterns against relative paths with matchPath', async () => {
+    const result: string[] = [];
+    for await (const entry of walker(TMP_DIR, {
+      matchPath: true,
+      include: /^sub1\/.*\.js$/,
+      exclude: 'sub1/sub2/'
+    })) {
+      result.push(entry.path);
+    }
+    assert.deepStrictEqual(result, [path.join(TMP_DIR, 'sub1', 'level1.js')]);
+  });
+
+  test('should pass entry context to filter functions', async () => {
+    const contexts: Array<{ name: string; relativePath: string; absolutePath: string; depth: number }> = [];
+    for await (const _entry of walker(TMP_DIR, {
+      include: (fileName, context) => {
+        assert.strictEqual(fileName, context.dirent.name);
+        contexts.push(context);
+        return true;
+      }
+    })) {
+      // noop
+    }
+
+    const level2 = contexts.find(c => c.name === 'level2.js');
+    assert.ok(level2);
+    assert.strictEqual(level2.relativePath, path.join('sub1', 'sub2', 'level2.js'));
+    assert.strictEqual(level2.absolutePath, path.resolve(TMP_DIR, 'sub1', 'sub2', 'level2.js'));
+    assert.strictEqual(level2.depth, 2);
+  });
+
+  test('should await async filter functions', async () => {
+    const result: string[] = [];
+    for await (const entry of walker(TMP_DIR, {
+      include: async (fileName) => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return fileName.endsWith('.js');
+      },
+      exclude: async (fileName) => fileName === 'level2.js'
+    })) {
+      result.push(path.basename(entry.path));
+    }
+    assert.deepStrictEqual(result, ['level1.js']);
+  });
+
+  test('should stop waiting for async filters when aborted', async () => {
+    const ac = new AbortController();
+    const result: unknown[] = [];
+    setTimeout(() => ac.abort(), 10);
+
+    for await (const entry of walker(TMP_DIR, {
+      signal: ac.signal,
+      include: (_fileName, context) => {
+        assert.strictEqual(context.signal, ac.signal);
+        return new Promise<boolean>(() => {}); // never settles
+      }
+    })) {
+      result.push(entry);
+    }
+    assert.strictEqual(result.length, 0);
+  });
+
+  test('should propagate async filter rejections when errors are not suppressed', async () => {
+    await assert.rejects(async () => {
+      for await (const _entry of walker(TMP_DIR, {
+        suppressErrors: false,
+        include: async () => {
+          throw new Error('lookup failed');
+        }
+      })) {
+        // noop
+      }
+    }, /lookup failed/);
+  });
+
   test('should yield directories when requested', async () => {
     const result: string[] = [];
     for await (const entry of walker(TMP_DIR, { yieldDirectories: true })) {
@@ -97,6 +194,40 @@ describe('fstream-walk', () => {
     assert.strictEqual(result.length, 1);
   });
 
+  test('should walk several roots in order with root attribution', async () => {
+    const sub2 = path.join(TMP_DIR, 'sub1', 'sub2');
+    const result: Array<[string, string]> = [];
+    for await (const entry of walker([sub2, path.join(TMP_DIR, 'sub1')], { sort: 'asc' })) {
+      result.push([entry.root, entry.relativePath]);
+    }
+    assert.deepStrictEqual(result, [
+      [sub2, 'level2.js'],
+      [path.join(TMP_DIR, 'sub1'), 'ignored.log'],
+      [path.join(TMP_DIR, 'sub1'), 'level1.js']
+    ]);
+  });
+
+  test('should not yield entries twice for overlapping roots', async () => {
+    const result: string[] = [];
+    for await (const entry of walker([TMP_DIR, path.join(TMP_DIR, 'sub1'), TMP_DIR])) {
+      result.push(entry.path);
+    }
+    assert.strictEqual(result.length, 5);
+    assert.strictEqual(new Set(result).size, 5);
+  });
+
+  test('should interleave roots level by level with bfs', async () => {
+    const depths: number[] = [];
+    for await (const entry of walker([path.join(TMP_DIR, 'sub1'), TMP_DIR], { strategy: 'bfs', yieldDirectories: true })) {
+      depths.push(entry.depth);
+    }
+    assert.deepStrictEqual(depths, [...depths].sort((a, b) => a - b));
+  });
+
+  test('should reject an empty list of roots', () => {
+    assert.throws(() => walker([]), /dirPath must be a non-empty string or a non-empty array of strings/);
+  });
+
   test('should handle non-existent directory gracefully if errors suppressed', async () => {
     const results: unknown[] = [];
     for await (const entry of walker('./invalid-ghost-dir', { suppressErrors: true })) {
@@ -1,7 +1,9 @@
 import { test, describe } from 'node:test';
 import assert from 'node:assert';
-import { sanitizeOptions, DEFAULT_OPTIONS } from '../src/options.js';
-import type { WalkerOptionsInput } from '../src/options.js';
+import type { Stats } from 'node:fs';
+import { sanitizeOptions, sanitizeRoots, sanitizeCursor, sanitizeSyncOptions, DEFAULT_OPTIONS } from '../src/options.js';
+import type { StatFilter, WalkerOptionsInput } from '../src/options.js';
+import { nodeFileSystem } from '../src/adapter.js';
 
 describe('Options Validation', () => {
   test('should return default options when no input provided', () => {
@@ -54,6 +56,40 @@ describe('Options Validation', () => {
     });
   });
 
+  describe('minDepth validation', () => {
+    test('should default to 0', () => {
+      assert.strictEqual(sanitizeOptions().minDepth, 0);
+    });
+
+    test('should accept positive numbers', () => {
+      assert.strictEqual(sanitizeOptions({ minDepth: 2 }).minDepth, 2);
+    });
+
+    test('should accept minDepth equal to maxDepth', () => {
+      assert.doesNotThrow(() => sanitizeOptions({ minDepth: 3, maxDepth: 3 }));
+    });
+
+    test('should reject negative numbers, NaN and Infinity', () => {
+      for (const minDepth of [-1, NaN, Infinity]) {
+        assert.throws(() => sanitizeOptions({ minDepth }), /minDepth must be a non-negative number/);
+      }
+    });
+
+    test('should reject non-numeric values', () => {
+      assert.throws(
+        () => sanitizeOptions({ minDepth: '1' as unknown as number }),
+        /minDepth must be a non-negative number/
+      );
+    });
+
+    test('should reject minDepth greater than maxDepth', () => {
+      assert.throws(
+        () => sanitizeOptions({ minDepth: 2, maxDepth: 1 }),
+        /minDepth cannot be greater than maxDepth/
+      );
+    });
+  });
+
   describe('sort validation', () => {
     test('should accept null', () => {
       assert.doesNotThrow(() => sanitizeOptions({ sort: null }));
@@ -90,6 +126,264 @@ describe('Options Validation', () => {
     });
   });
 
+  describe('strategy validation', () => {
+    test('should default to dfs', () => {
+      assert.strictEqual(sanitizeOptions().strategy, 'dfs');
+    });
+
+    test('should accept bfs', () => {
+      const result = sanitizeOptions({ strategy: 'bfs' });
+      assert.strictEqual(result.strategy, 'bfs');
+    });
+
+    test('should reject unknown strategies', () => {
+      assert.throws(
+        () => sanitizeOptions({ strategy: 'random' as unknown as 'dfs' }),
+        /strategy must be 'dfs' or 'bfs'/
+      );
+    });
+  });
+
+  describe('directoryOrder validation', () => {
+    test('should default to pre', () => {
+      assert.strictEqual(sanitizeOptions().directoryOrder, 'pre');
+    });
+
+    test('should accept post', () => {
+      assert.strictEqual(sanitizeOptions({ directoryOrder: 'post' }).directoryOrder, 'post');
+    });
+
+    test('should reject unknown values', () => {
+      assert.throws(
+        () => sanitizeOptions({ directoryOrder: 'in' as unknown as 'pre' }),
+        /directoryOrder must be 'pre' or 'post'/
+      );
+    });
+
+    test('should reject post order with bfs', () => {
+      assert.throws(
+        () => sanitizeOptions({ directoryOrder: 'post', strategy: 'bfs' }),
+        /only supported with strategy 'dfs'/
+      );
+    });
+  });
+
+  describe('concurrency validation', () => {
+    test('should default to 1', () => {
+      assert.strictEqual(sanitizeOptions().concurrency, 1);
+    });
+
+    test('should accept positive integers', () => {
+      assert.strictEqual(sanitizeOptions({ concurrency: 8 }).concurrency, 8);
+    });
+
+    test('should reject zero, fractions and non-numbers', () => {
+      for (const concurrency of [0, -2, 1.5, NaN, Infinity, '4']) {
+        assert.throws(
+          () => sanitizeOptions({ concurrency: concurrency as number }),
+          /concurrency must be a positive integer/
+        );
+      }
+    });
+  });
+
+  describe('dedupeHardLinks validation', () => {
+    test('should default to false', () => {
+      assert.strictEqual(sanitizeOptions().dedupeHardLinks, false);
+    });
+
+    test('should accept skip and flag', () => {
+      assert.strictEqual(sanitizeOptions({ dedupeHardLinks: 'skip' }).dedupeHardLinks, 'skip');
+      assert.strictEqual(sanitizeOptions({ dedupeHardLinks: 'flag' }).dedupeHardLinks, 'flag');
+    });
+
+    test('should reject other values', () => {
+      assert.throws(
+        () => sanitizeOptions({ dedupeHardLinks: true as unknown as 'skip' }),
+        /dedupeHardLinks must be 'skip', 'flag', or false/
+      );
+    });
+  });
+
+  describe('walk budget validation', () => {
+    test('should default to Infinity', () => {
+      const result = sanitizeOptions();
+      assert.strictEqual(result.maxEntries, Infinity);
+      assert.strictEqual(result.maxDirectories, Infinity);
+      assert.strictEqual(result.timeLimitMs, Infinity);
+    });
+
+    test('should reject negative or non-numeric values', () => {
+      assert.throws(() => sanitizeOptions({ maxEntries: -1 }), /maxEntries must be a non-negative number or Infinity/);
+      assert.throws(
+        () => sanitizeOptions({ maxDirectories: '10' as unknown as number }),
+        /maxDirectories must be a non-negative number or Infinity/
+      );
+      assert.throws(() => sanitizeOptions({ timeLimitMs: NaN }), /timeLimitMs must be a non-negative number or Infinity/);
+    });
+  });
+
+  describe('symlinkPolicy validation', () => {
+    test('should default to dedupe', () => {
+      assert.strictEqual(sanitizeOptions().symlinkPolicy, 'dedupe');
+    });
+
+    test('should reject other values', () => {
+      assert.throws(
+        () => sanitizeOptions({ symlinkPolicy: 'follow' as unknown as 'dedupe' }),
+        /symlinkPolicy must be 'dedupe' or 'cycle-only'/
+      );
+    });
+  });
+
+  describe('statMode validation', () => {
+    test('should default to stat', () => {
+      assert.strictEqual(sanitizeOptions().statMode, 'stat');
+    });
+
+    test('should reject other values', () => {
+      assert.throws(
+        () => sanitizeOptions({ statMode: 'readlink' as unknown as 'stat' }),
+        /statMode must be 'stat' or 'lstat'/
+      );
+    });
+  });
+
+  describe('types validation', () => {
+    test('should default to null', () => {
+      assert.strictEqual(sanitizeOptions().types, null);
+    });
+
+    test('should accept arrays and Sets', () => {
+      assert.deepStrictEqual(sanitizeOptions({ types: ['file', 'fifo'] }).types, new Set(['file', 'fifo']));
+      assert.deepStrictEqual(sanitizeOptions({ types: new Set(['socket'] as const) }).types, new Set(['socket']));
+    });
+
+    test('should add directories when yieldDirectories is set', () => {
+      assert.deepStrictEqual(
+        sanitizeOptions({ types: ['file'], yieldDirectories: true }).types,
+        new Set(['file', 'directory'])
+      );
+    });
+
+    test('should reject unknown kinds', () => {
+      assert.throws(
+        () => sanitizeOptions({ types: ['file', 'device'] as unknown as ['file'] }),
+        /types must be an array or Set of 'file', 'directory', 'symlink', 'block', 'character', 'fifo', 'socket', or null/
+      );
+      assert.throws(() => sanitizeOptions({ types: 'file' as unknown as ['file'] }), /types must be an array or Set/);
+    });
+  });
+
+  describe('statFilter validation', () => {
+    test('should default to null and ignore empty specs', () => {
+      assert.strictEqual(sanitizeOptions().statFilter, null);
+      assert.strictEqual(sanitizeOptions({ statFilter: {} }).statFilter, null);
+    });
+
+    test('should compile a JSON spec into a predicate', () => {
+      const spec = JSON.parse(
+        '{"size":{"min":10,"max":100},"mtime":{"after":"2024-01-01T00:00:00Z"},"mode":{"all":"644","none":"0o002"},"uid":[0,1000]}'
+      );
+      const predicate = sanitizeOptions({ statFilter: spec }).statFilter!;
+      const stats = (overrides: Partial<Stats>) => ({
+        size: 50,
+        mtime: new Date('2024-06-01T00:00:00Z'),
+        mode: 0o100644,
+        uid: 1000,
+        ...overrides
+      }) as Stats;
+
+      assert.strictEqual(predicate(stats({})), true);
+      assert.strictEqual(predicate(stats({ size: 5 })), false);
+      assert.strictEqual(predicate(stats({ size: 101 })), false);
+      assert.strictEqual(predicate(stats({ mtime: new Date('2023-12-31T00:00:00Z') })), false);
+      assert.strictEqual(predicate(stats({ mode: 0o100600 })), false);
+      assert.strictEqual(predicate(stats({ mode: 0o100646 })), false);
+      assert.strictEqual(predicate(stats({ uid: 501 })), false);
+    });
+
+    test('should reject invalid criteria', () => {
+      const invalid: Array<[unknown, RegExp]> = [
+        ['large', /statFilter must be an object or null/],
+        [{ owner: 'root' }, /statFilter.owner is not supported/],
+        [{ size: 10 }, /statFilter.size must be an object/],
+        [{ size: { min: -1 } }, /statFilter.size.min must be a non-negative number/],
+        [{ mtime: { before: 'yesterday' } }, /statFilter.mtime.before must be a timestamp, a date string or a Date/],
+        [{ mode: { any: '0x1ff' } }, /statFilter.mode.any must be permission bits/],
+        [{ gid: [] }, /statFilter.gid must be a non-negative integer or an array of them/]
+      ];
+      for (const [statFilter, message] of invalid) {
+        assert.throws(() => sanitizeOptions({ statFilter: statFilter as StatFilter }), message);
+      }
+    });
+  });
+
+  describe('resumeFrom validation', () => {
+    const cursor = { version: 1 as const, roots: ['.'], stack: [], queue: [], visited: [], inodes: [] };
+
+    test('should default to null', () => {
+      assert.strictEqual(sanitizeOptions().resumeFrom, null);
+    });
+
+    test('should accept a cursor with a sort order', () => {
+      assert.strictEqual(sanitizeOptions({ resumeFrom: cursor, sort: 'asc' }).resumeFrom, cursor);
+    });
+
+    test('should require a sort order', () => {
+      assert.throws(() => sanitizeOptions({ resumeFrom: cursor }), /resumeFrom requires a sort order/);
+    });
+
+    test('should reject values that are not cursors', () => {
+      assert.throws(
+        () => sanitizeOptions({ resumeFrom: { version: 2 } as unknown as typeof cursor, sort: 'asc' }),
+        /resumeFrom must be a cursor returned by checkpoint\(\) or null/
+      );
+    });
+
+    test('should reject cursors from other roots', () => {
+      assert.throws(() => sanitizeCursor(cursor, ['./other']), /resumeFrom must come from a walk of the same roots/);
+      assert.doesNotThrow(() => sanitizeCursor(cursor, ['.']));
+    });
+  });
+
+  describe('fs validation', () => {
+    test('should default to the node filesystem', () => {
+      assert.strictEqual(sanitizeOptions().fs, nodeFileSystem);
+    });
+
+    test('should reject adapters missing an operation', () => {
+      const partial = { opendir: nodeFileSystem.opendir, stat: nodeFileSystem.stat };
+      assert.throws(
+        () => sanitizeOptions({ fs: partial as unknown as typeof nodeFileSystem }),
+        /fs must implement opendir, stat, lstat, readlink and realpath/
+      );
+      assert.throws(
+        () => sanitizeOptions({ fs: null as unknown as typeof nodeFileSystem }),
+        /fs must implement opendir, stat, lstat, readlink and realpath/
+      );
+    });
+  });
+
+  describe('sanitizeSyncOptions', () => {
+    test('should apply the same validation as sanitizeOptions', () => {
+      assert.deepStrictEqual(sanitizeSyncOptions({ sort: 'asc' }), sanitizeOptions({ sort: 'asc' }));
+      assert.throws(() => sanitizeSyncOptions({ concurrency: 0 }), /concurrency must be a positive integer/);
+    });
+
+    test('should reject options that need asynchronous I/O', () => {
+      const cursor = { version: 1 as const, roots: ['.'], stack: [], queue: [], visited: [], inodes: [] };
+      assert.throws(
+        () => sanitizeSyncOptions({ resumeFrom: cursor, sort: 'asc' }),
+        /resumeFrom is not supported by walkSync/
+      );
+      assert.throws(
+        () => sanitizeSyncOptions({ fs: { ...nodeFileSystem } }),
+        /fs adapters are not supported by walkSync/
+      );
+    });
+  });
+
   describe('signal validation', () => {
     test('should accept null', () => {
       assert.doesNotThrow(() => sanitizeOptions({ signal: null }));
@@ -145,6 +439,34 @@ describe('Options Validation', () => {
       );
     });
 
+    test('should reject non-boolean for matchPath', () => {
+      assert.throws(
+        () => sanitizeOptions({ matchPath: 1 as unknown as boolean }),
+        /matchPath must be a boolean/
+      );
+    });
+
+    test('should reject non-boolean for posixPaths', () => {
+      assert.throws(
+        () => sanitizeOptions({ posixPaths: 'yes' as unknown as boolean }),
+        /posixPaths must be a boolean/
+      );
+    });
+
+    test('should reject non-boolean for throwOnAbort', () => {
+      assert.throws(
+        () => sanitizeOptions({ throwOnAbort: null as unknown as boolean }),
+        /throwOnAbort must be a boolean/
+      );
+    });
+
+    test('should reject non-boolean for oneFileSystem', () => {
+      assert.throws(
+        () => sanitizeOptions({ oneFileSystem: 'xdev' as unknown as boolean }),
+        /oneFileSystem must be a boolean/
+      );
+    });
+
     test('should accept boolean for withStats', () => {
       assert.doesNotThrow(() => sanitizeOptions({ withStats: true }));
       assert.doesNotThrow(() => sanitizeOptions({ withStats: false }));
@@ -174,4 +496,68 @@ describe('Options Validation', () => {
       );
     });
   });
+
+  describe('directory hook validation', () => {
+    test('should accept functions', () => {
+      assert.doesNotThrow(() => sanitizeOptions({ onEnterDirectory: () => {}, onLeaveDirectory: () => {} }));
+    });
+
+    test('should reject non-function values', () => {
+      assert.throws(
+        () => sanitizeOptions({ onEnterDirectory: {} as unknown as () => void }),
+        /onEnterDirectory must be a function or null/
+      );
+      assert.throws(
+        () => sanitizeOptions({ onLeaveDirectory: 'log' as unknown as () => void }),
+        /onLeaveDirectory must be a function or null/
+      );
+    });
+  });
+
+  describe('onError validation', () => {
+    test('should accept null and functions', () => {
+      assert.doesNotThrow(() => sanitizeOptions({ onError: null }));
+      assert.doesNotThrow(() => sanitizeOptions({ onError: () => 'skip' }));
+    });
+
+    test('should reject non-function values', () => {
+      assert.throws(
+        () => sanitizeOptions({ onError: 'skip' as unknown as () => 'skip' }),
+        /onError must be a function or null/
+      );
+    });
+  });
+
+  describe('prune validation', () => {
+    test('should accept null and functions', () => {
+      assert.doesNotThrow(() => sanitizeOptions({ prune: null }));
+      assert.doesNotThrow(() => sanitizeOptions({ prune: () => false }));
+    });
+
+    test('should reject non-function values', () => {
+      assert.throws(
+        () => sanitizeOptions({ prune: 'node_modules' as unknown as () => boolean }),
+        /prune must be a function or null/
+      );
+    });
+  });
+
+  describe('roots validation', () => {
+    test('should wrap a single root in an array', () => {
+      assert.deepStrictEqual(sanitizeRoots('./src'), ['./src']);
+    });
+
+    test('should accept an array of roots', () => {
+      assert.deepStrictEqual(sanitizeRoots(['./src', './scripts']), ['./src', './scripts']);
+    });
+
+    test('should reject empty arrays, empty strings and non-strings', () => {
+      for (const roots of [[], '', ['./src', ''], [42]]) {
+        assert.throws(
+          () => sanitizeRoots(roots as string[]),
+          /dirPath must be a non-empty string or a non-empty array of strings/
+        );
+      }
+    });
+  });
 });
@@ -0,0 +1,261 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import walker from '../src/index.js';
+import { parallelWalker } from '../src/parallel.js';
+import { SymlinkLoopError } from '../src/errors.js';
+import { sanitizeParallelOptions } from '../src/options.js';
+import type { ParallelWalkerOptionsInput, WalkerOptionsInput } from '../src/options.js';
+
+const TMP_DIR = path.join(os.tmpdir(), 'fstream-parallel-test-' + Date.now());
+// More than one batch, so workers have to wait for acks
+const BULK_COUNT = 600;
+// Levels that each link twice to the next one: walked with 'cycle-only',
+// the fan subtree has 2^FAN_DEPTH paths and nothing in it is a file
+const FAN_DIR = TMP_DIR + '-fan';
+const FAN_DEPTH = 16;
+const FAN_OPTIONS: ParallelWalkerOptionsInput = {
+  workers: 1,
+  followSymlinks: true,
+  symlinkPolicy: 'cycle-only',
+  types: ['file']
+};
+// How long stopping may take while a worker is in the middle of the fan
+const STOP_MS = 1000;
+
+describe('parallelWalker', () => {
+  before(async () => {
+    await fs.mkdir(path.join(TMP_DIR, 'src', 'lib'), { recursive: true });
+    await fs.mkdir(path.join(TMP_DIR, 'docs'), { recursive: true });
+    await fs.mkdir(path.join(TMP_DIR, 'bulk'), { recursive: true });
+    await fs.writeFile(path.join(TMP_DIR, 'root.txt'), 'root');
+    await fs.writeFile(path.join(TMP_DIR, 'src', 'index.ts'), 'index');
+    await fs.writeFile(path.join(TMP_DIR, 'src', 'lib', 'util.ts'), 'util');
+    await fs.writeFile(path.join(TMP_DIR, 'docs', 'guide.md'), 'guide');
+    for (let i = 0; i < BULK_COUNT; i++) {
+      await fs.writeFile(path.join(TMP_DIR, 'bulk', `item-${String(i).padStart(3, '0')}.txt`), '');
+    }
+    await fs.symlink(TMP_DIR, path.join(TMP_DIR, 'src', 'loop'));
+
+    await fs.mkdir(path.join(FAN_DIR, 'fan', `level-${FAN_DEPTH}`), { recursive: true });
+    await fs.writeFile(path.join(FAN_DIR, 'early.txt'), 'early');
+    for (let i = 0; i < FAN_DEPTH; i++) {
+      await fs.mkdir(path.join(FAN_DIR, 'fan', `level-${i}`));
+      await fs.symlink(`../level-${i + 1}`, path.join(FAN_DIR, 'fan', `level-${i}`, 'a'));
+      await fs.symlink(`../level-${i + 1}`, path.join(FAN_DIR, 'fan', `level-${i}`, 'b'));
+    }
+  });
+  after(async () => {
+    await fs.rm(TMP_DIR, { recursive: true, force: true });
+    await fs.rm(FAN_DIR, { recursive: true, force: true });
+  });
+
+  async function collect(options: ParallelWalkerOptionsInput): Promise<string[]> {
+    const results: string[] = [];
+    for await (const entry of parallelWalker(TMP_DIR, { workers: 2, ...options })) {
+      results.push(entry.relativePath);
+    }
+    return results;
+  }
+
+  async function collectSequential(options: WalkerOptionsInput): Promise<string[]> {
+    const results: string[] = [];
+    for await (const entry of walker(TMP_DIR, options)) {
+      results.push(entry.relativePath);
+    }
+    return results;
+  }
+
+  test('should yield the same entries in the same order when sorted', async () => {
+    const variants: Array<ParallelWalkerOptionsInput & WalkerOptionsInput> = [
+      { sort: 'asc' },
+      { sort: 'desc', yieldDirectories: true },
+      { sort: 'asc', directoryOrder: 'post', yieldDirectories: true },
+      { sort: 'asc', maxDepth: 1, minDepth: 1 },
+      { sort: 'asc', maxDepth: 0 },
+      { sort: 'asc', include: '.ts', exclude: /lib/, matchPath: true },
+      { sort: 'asc', followSymlinks: true },
+      { sort: 'asc', followSymlinks: true, symlinkPolicy: 'cycle-only' },
+      { sort: 'asc', types: ['symlink', 'directory'] },
+      { sort: 'asc', statFilter: JSON.parse('{"size":{"min":4,"max":5}}') }
+    ];
+
+    for (const options of variants) {
+      assert.deepStrictEqual(await collect(options), await collectSequential(options), JSON.stringify(options));
+    }
+  });
+
+  test('should walk linked top-level directories under their own path with dedupe', async () => {
+    const linkDir = TMP_DIR + '-links';
+    await fs.mkdir(path.join(linkDir, 'd1'), { recursive: true });
+    await fs.mkdir(path.join(linkDir, 'd2'), { recursive: true });
+    await fs.writeFile(path.join(linkDir, 'd2', 'f.txt'), 'f');
+    await fs.symlink(path.join('..', 'd2'), path.join(linkDir, 'd1', 'tod2'));
+
+    try {
+      const collectFrom = async (walk: AsyncIterable<{ relativePath: string }>) => {
+        const results: string[] = [];
+        for await (const entry of walk) results.push(entry.relativePath);
+        return results;
+      };
+      const options = { sort: 'asc' as const, followSymlinks: true };
+
+      // walker() meets d2 through the link first; workers keep it below the root
+      assert.deepStrictEqual(await collectFrom(walker(linkDir, options)), [path.join('d1', 'tod2', 'f.txt')]);
+      assert.deepStrictEqual(await collectFrom(parallelWalker(linkDir, { workers: 2, ...options })), [path.join('d2', 'f.txt')]);
+
+      const both = { ...options, symlinkPolicy: 'cycle-only' as const };
+      assert.deepStrictEqual(
+        await collectFrom(parallelWalker(linkDir, { workers: 2, ...both })),
+        await collectFrom(walker(linkDir, both))
+      );
+    } finally {
+      await fs.rm(linkDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should yield the same set of entries when unsorted', async () => {
+    const results = await collect({ yieldDirectories: true });
+    const expected = await collectSequential({ yieldDirectories: true });
+    assert.deepStrictEqual(results.sort(), expected.sort());
+  });
+
+  test('should run glob specs in the workers', async () => {
+    const results = await collect({ sort: 'asc', include: { glob: '**/*.ts' }, matchPath: true });
+    assert.deepStrictEqual(results, [path.join('src', 'index.ts'), path.join('src', 'lib', 'util.ts')]);
+  });
+
+  test('should rebuild dirents and stats', async () => {
+    for await (const entry of parallelWalker(TMP_DIR, { workers: 1, withStats: true, include: 'guide' })) {
+      assert.strictEqual(entry.name, 'guide.md');
+      assert.ok(entry.dirent.isFile());
+      assert.ok(!entry.dirent.isDirectory());
+      assert.ok(entry.stats?.isFile());
+      assert.strictEqual(entry.stats?.size, 5);
+      assert.ok(entry.stats?.mtime instanceof Date);
+    }
+  });
+
+  test('should send symlink details back from workers', async () => {
+    const results = [];
+    for await (const entry of parallelWalker(TMP_DIR, { workers: 1, withStats: true, statMode: 'lstat', include: 'loop' })) {
+      results.push(entry);
+    }
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].linkTarget, TMP_DIR);
+    assert.strictEqual(results[0].isBrokenLink, false);
+    assert.ok(results[0].stats?.isSymbolicLink());
+    assert.ok(results[0].targetStats?.isDirectory());
+  });
+
+  test('should stop when the signal aborts', async () => {
+    const controller = new AbortController();
+    let count = 0;
+    for await (const _entry of parallelWalker(TMP_DIR, { workers: 2, signal: controller.signal })) {
+      if (++count === 10) controller.abort();
+    }
+    assert.strictEqual(count, 10);
+
+    // Also while a worker is walking a subtree that yields nothing
+    const fanController = new AbortController();
+    let abortedAt = 0;
+    setTimeout(() => {
+      abortedAt = Date.now();
+      fanController.abort();
+    }, 50);
+    const names = [];
+    for await (const entry of parallelWalker(FAN_DIR, { ...FAN_OPTIONS, signal: fanController.signal })) {
+      names.push(entry.name);
+    }
+    assert.deepStrictEqual(names, ['early.txt']);
+    assert.ok(abortedAt > 0 && Date.now() - abortedAt < STOP_MS, `stopped ${Date.now() - abortedAt}ms after the abort`);
+
+    await assert.rejects(async () => {
+      for await (const _entry of parallelWalker(TMP_DIR, { signal: AbortSignal.abort(), throwOnAbort: true })) {
+        // noop
+      }
+    }, { name: 'AbortError' });
+  });
+
+  test('should stop the workers when the consumer breaks', async () => {
+    let count = 0;
+    for await (const _entry of parallelWalker(TMP_DIR, { workers: 2 })) {
+      if (++count === 5) break;
+    }
+    assert.strictEqual(count, 5);
+
+    // Breaking must not wait for a worker to finish a subtree that yields nothing
+    let brokeAt = 0;
+    for await (const _entry of parallelWalker(FAN_DIR, FAN_OPTIONS)) {
+      // Give the worker time to get into the fan
+      await new Promise(resolve => setTimeout(resolve, 50));
+      brokeAt = Date.now();
+      break;
+    }
+    assert.ok(brokeAt > 0 && Date.now() - brokeAt < STOP_MS, `stopped ${Date.now() - brokeAt}ms after the break`);
+  });
+
+  test('should surface errors for missing roots unless suppressed', async () => {
+    const missing = path.join(TMP_DIR, 'missing');
+    const results = [];
+    for await (const entry of parallelWalker(missing)) {
+      results.push(entry);
+    }
+    assert.deepStrictEqual(results, []);
+
+    await assert.rejects(async () => {
+      for await (const _entry of parallelWalker(missing, { suppressErrors: false })) {
+        // noop
+      }
+    }, { code: 'ENOENT' });
+  });
+
+  test('should rethrow errors from workers as walker() throws them', async () => {
+    const options = { followSymlinks: true, suppressErrors: false };
+    const caught = async (iterable: AsyncIterable<unknown>) => {
+      try {
+        for await (const _entry of iterable) {
+          // noop
+        }
+      } catch (err) {
+        return err;
+      }
+      assert.fail('expected the walk to throw');
+    };
+
+    const expected = await caught(walker(TMP_DIR, options));
+    const actual = await caught(parallelWalker(TMP_DIR, { workers: 2, ...options }));
+    assert.ok(actual instanceof SymlinkLoopError);
+    assert.strictEqual(actual.constructor, (expected as Error).constructor);
+    assert.match(actual.message, /^Symlink cycle/);
+    assert.strictEqual(actual.message, (expected as SymlinkLoopError).message);
+    assert.strictEqual(actual.path, (expected as SymlinkLoopError).path);
+  });
+
+  test('should default workers to the CPU count on Node versions without availableParallelism', () => {
+    const { availableParallelism } = os;
+    Object.assign(os, { availableParallelism: undefined });
+    try {
+      assert.strictEqual(sanitizeParallelOptions().workers, Math.max(1, os.cpus().length - 1));
+    } finally {
+      Object.assign(os, { availableParallelism });
+    }
+  });
+
+  test('should reject options that cannot be sent to a worker', () => {
+    const invalid = [
+      [{ include: () => true }, /include\/exclude must be a string, RegExp, \{ glob \} spec, or null/],
+      [{ prune: () => false }, /prune is not supported by parallelWalker/],
+      [{ strategy: 'bfs' }, /strategy is not supported by parallelWalker/],
+      [{ sort: (a: string, b: string) => a.localeCompare(b) }, /sort must be 'asc', 'desc', or null in parallelWalker/],
+      [{ workers: 0 }, /workers must be a positive integer/],
+      [{ maxDepth: -1 }, /maxDepth must be a non-negative number/]
+    ] as const;
+
+    for (const [options, message] of invalid) {
+      assert.throws(() => parallelWalker(TMP_DIR, options as ParallelWalkerOptionsInput), message);
+    }
+  });
+});
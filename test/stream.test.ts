@@ -0,0 +1,137 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { Transform, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { once } from 'node:events';
+import { setImmediate as tick } from 'node:timers/promises';
+import { toNodeStream, toWebStream } from '../src/stream.js';
+import { nodeFileSystem } from '../src/index.js';
+import type { FileSystemAdapter, WalkerEntry } from '../src/index.js';
+
+const TMP_DIR = path.join(os.tmpdir(), 'fstream-stream-test-' + Date.now());
+const FILE_COUNT = 50;
+
+/**
+ * Wraps the node filesystem to count open and closed directory handles
+ */
+function trackHandles(): FileSystemAdapter & { open: number } {
+  const tracker = {
+    ...nodeFileSystem,
+    open: 0,
+    async opendir(dirPath: string) {
+      const handle = await nodeFileSystem.opendir(dirPath);
+      tracker.open++;
+      let closed = false;
+      return {
+        [Symbol.asyncIterator]: () => handle[Symbol.asyncIterator](),
+        async close() {
+          if (!closed) {
+            closed = true;
+            tracker.open--;
+          }
+          await handle.close();
+        }
+      };
+    }
+  };
+  return tracker;
+}
+
+describe('Stream adapters', () => {
+  before(async () => {
+    await fs.mkdir(path.join(TMP_DIR, 'nested'), { recursive: true });
+    for (let i = 0; i < FILE_COUNT; i++) {
+      await fs.writeFile(path.join(TMP_DIR, 'nested', `file-${String(i).padStart(2, '0')}.txt`), String(i));
+    }
+  });
+  after(async () => await fs.rm(TMP_DIR, { recursive: true, force: true }));
+
+  test('toNodeStream should pipe entries through transforms', async () => {
+    const names: string[] = [];
+    await pipeline(
+      toNodeStream(TMP_DIR, { sort: 'asc' }),
+      new Transform({
+        objectMode: true,
+        transform(entry: WalkerEntry, _encoding, callback) {
+          callback(null, entry.name);
+        }
+      }),
+      new Writable({
+        objectMode: true,
+        write(name: string, _encoding, callback) {
+          names.push(name);
+          callback();
+        }
+      })
+    );
+
+    assert.strictEqual(names.length, FILE_COUNT);
+    assert.strictEqual(names[0], 'file-00.txt');
+  });
+
+  test('toNodeStream should only read ahead up to its highWaterMark', async () => {
+    let walked = 0;
+    const stream = toNodeStream(TMP_DIR, { onProgress: () => walked++ });
+    stream.pause();
+    stream.read(0);
+    await tick();
+    await tick();
+
+    assert.ok(walked < FILE_COUNT, `walked ${walked} entries without a reader`);
+    stream.destroy();
+    await once(stream, 'close');
+  });
+
+  test('toNodeStream should close directory handles on destroy', async () => {
+    const tracker = trackHandles();
+    const stream = toNodeStream(TMP_DIR, { fs: tracker });
+    await once(stream, 'readable');
+    assert.ok(stream.read());
+    assert.ok(tracker.open > 0);
+
+    stream.destroy();
+    await once(stream, 'close');
+    // Directory handles are closed once the walker has finished unwinding
+    await tick();
+    assert.strictEqual(tracker.open, 0);
+  });
+
+  test('toWebStream should yield every entry', async () => {
+    const names: string[] = [];
+    for await (const entry of toWebStream(TMP_DIR, { sort: 'desc' })) {
+      names.push(entry.name);
+    }
+    assert.strictEqual(names.length, FILE_COUNT);
+    assert.strictEqual(names[0], `file-${FILE_COUNT - 1}.txt`);
+  });
+
+  test('toWebStream should pull one entry at a time', async () => {
+    let walked = 0;
+    const stream = toWebStream(TMP_DIR, { onProgress: () => walked++ });
+    const reader = stream.getReader();
+    await reader.read();
+    await tick();
+
+    assert.ok(walked <= 2, `walked ${walked} entries for one read`);
+    await reader.cancel();
+  });
+
+  test('toWebStream should close directory handles on cancel', async () => {
+    const tracker = trackHandles();
+    const reader = toWebStream(TMP_DIR, { fs: tracker }).getReader();
+    const first = await reader.read();
+    assert.strictEqual(first.done, false);
+    assert.ok(tracker.open > 0);
+
+    await reader.cancel();
+    assert.strictEqual(tracker.open, 0);
+  });
+
+  test('toWebStream should error when the walk fails', async () => {
+    const reader = toWebStream(path.join(TMP_DIR, 'missing'), { suppressErrors: false }).getReader();
+    await assert.rejects(reader.read(), { code: 'ENOENT' });
+  });
+});
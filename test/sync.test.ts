@@ -0,0 +1,167 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import { symlinkSync, unlinkSync } from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import walker, { walkSync } from '../src/index.js';
+import type { WalkerOptionsInput } from '../src/index.js';
+
+const TMP_DIR = path.join(os.tmpdir(), 'fstream-sync-test-' + Date.now());
+
+describe('walkSync', () => {
+  before(async () => {
+    await fs.mkdir(path.join(TMP_DIR, 'src', 'lib'), { recursive: true });
+    await fs.mkdir(path.join(TMP_DIR, 'node_modules', 'pkg'), { recursive: true });
+    await fs.writeFile(path.join(TMP_DIR, 'root.txt'), 'root');
+    await fs.writeFile(path.join(TMP_DIR, 'src', 'index.ts'), 'index');
+    await fs.writeFile(path.join(TMP_DIR, 'src', 'lib', 'util.ts'), 'util');
+    await fs.writeFile(path.join(TMP_DIR, 'node_modules', 'pkg', 'index.js'), 'pkg');
+    await fs.link(path.join(TMP_DIR, 'root.txt'), path.join(TMP_DIR, 'src', 'root-link.txt'));
+    await fs.symlink(TMP_DIR, path.join(TMP_DIR, 'src', 'loop'));
+  });
+  after(async () => await fs.rm(TMP_DIR, { recursive: true, force: true }));
+
+  async function collectAsync(options: WalkerOptionsInput): Promise<string[]> {
+    const results: string[] = [];
+    for await (const entry of walker(TMP_DIR, options)) {
+      results.push(entry.relativePath);
+    }
+    return results;
+  }
+
+  function collectSync(options: WalkerOptionsInput): string[] {
+    const results: string[] = [];
+    for (const entry of walkSync(TMP_DIR, options)) {
+      results.push(entry.relativePath);
+    }
+    return results;
+  }
+
+  test('should yield the same entries as the async walker', async () => {
+    const variants: WalkerOptionsInput[] = [
+      { sort: 'asc' },
+      { sort: 'desc', yieldDirectories: true },
+      { sort: 'asc', strategy: 'bfs', yieldDirectories: true },
+      { sort: 'asc', directoryOrder: 'post', yieldDirectories: true },
+      { sort: 'asc', maxDepth: 1, minDepth: 1 },
+      { sort: 'asc', include: '.ts', exclude: /lib/, matchPath: true },
+      { sort: 'asc', prune: entry => entry.name === 'node_modules' },
+      { sort: 'asc', followSymlinks: true },
+      { sort: 'asc', followSymlinks: true, symlinkPolicy: 'cycle-only' },
+      { sort: 'asc', dedupeHardLinks: 'skip' },
+      { sort: 'asc', types: ['symlink', 'directory'] },
+      { sort: 'asc', followSymlinks: true, types: new Set(['file'] as const) },
+      { sort: 'asc', yieldDirectories: true, statFilter: { size: { min: 5 } } }
+    ];
+
+    for (const options of variants) {
+      assert.deepStrictEqual(collectSync(options), await collectAsync(options), JSON.stringify(options));
+    }
+  });
+
+  test('should build the same entry shape', async () => {
+    const [asyncEntry] = await (async () => {
+      const entries = [];
+      for await (const entry of walker(TMP_DIR, { sort: 'asc', withStats: true, posixPaths: true })) {
+        entries.push(entry);
+      }
+      return entries;
+    })();
+    const [syncEntry] = [...walkSync(TMP_DIR, { sort: 'asc', withStats: true, posixPaths: true })];
+
+    assert.deepStrictEqual(Object.keys(syncEntry).sort(), Object.keys(asyncEntry).sort());
+    assert.strictEqual(syncEntry.path, asyncEntry.path);
+    assert.strictEqual(syncEntry.stats?.ino, asyncEntry.stats?.ino);
+  });
+
+  test('should describe symlinks like the async walker', async () => {
+    const options: WalkerOptionsInput = { sort: 'asc', withStats: true, statMode: 'lstat', include: 'loop' };
+    const [syncEntry] = [...walkSync(TMP_DIR, options)];
+    const asyncEntries = [];
+    for await (const entry of walker(TMP_DIR, options)) {
+      asyncEntries.push(entry);
+    }
+
+    assert.strictEqual(syncEntry.linkTarget, TMP_DIR);
+    assert.strictEqual(syncEntry.linkTarget, asyncEntries[0].linkTarget);
+    assert.strictEqual(syncEntry.isBrokenLink, false);
+    assert.ok(syncEntry.stats?.isSymbolicLink());
+    assert.ok(syncEntry.targetStats?.isDirectory());
+  });
+
+  test('should not stat broken symlinks again', () => {
+    const broken = path.join(TMP_DIR, 'broken');
+    symlinkSync('missing.txt', broken);
+    try {
+      const entries = [...walkSync(TMP_DIR, { withStats: true, suppressErrors: false, include: 'broken' })];
+      assert.strictEqual(entries.length, 1);
+      assert.strictEqual(entries[0].isBrokenLink, true);
+      assert.strictEqual(entries[0].stats, undefined);
+    } finally {
+      unlinkSync(broken);
+    }
+  });
+
+  test('should skip broken symlinks that statFilter cannot match', () => {
+    const broken = path.join(TMP_DIR, 'broken');
+    symlinkSync('missing.txt', broken);
+    try {
+      const options: WalkerOptionsInput = { statFilter: { size: { min: 0 } }, suppressErrors: false, include: 'broken' };
+      assert.deepStrictEqual([...walkSync(TMP_DIR, options)], []);
+    } finally {
+      unlinkSync(broken);
+    }
+  });
+
+  test('should call hooks and report state', () => {
+    const events: string[] = [];
+    const iterator = walkSync(TMP_DIR, {
+      sort: 'asc',
+      maxDepth: 0,
+      onEnterDirectory: (_dir, depth) => events.push(`enter ${depth}`),
+      onLeaveDirectory: (_dir, depth, summary) => events.push(`leave ${depth} ${summary.childCount}`)
+    });
+    assert.strictEqual(iterator.state, 'running');
+    for (const _entry of iterator) {
+      // noop
+    }
+    assert.strictEqual(iterator.state, 'completed');
+    assert.deepStrictEqual(events, ['enter 0', 'leave 0 3']);
+  });
+
+  test('should stop when the signal aborts', () => {
+    const controller = new AbortController();
+    const results = [];
+    const iterator = walkSync(TMP_DIR, { signal: controller.signal });
+    for (const entry of iterator) {
+      results.push(entry);
+      controller.abort();
+    }
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(iterator.state, 'aborted');
+  });
+
+  test('should stop at the same budget limits', async () => {
+    for (const options of [{ maxEntries: 2 }, { maxDirectories: 2 }] as WalkerOptionsInput[]) {
+      const iterator = walkSync(TMP_DIR, { sort: 'asc', yieldDirectories: true, ...options });
+      const results = [...iterator].map(entry => entry.relativePath);
+      assert.deepStrictEqual(results, await collectAsync({ sort: 'asc', yieldDirectories: true, ...options }));
+      assert.strictEqual(iterator.state, 'limited');
+      assert.strictEqual(iterator.limit, Object.keys(options)[0]);
+    }
+  });
+
+  test('should surface errors for missing roots unless suppressed', () => {
+    const missing = path.join(TMP_DIR, 'missing');
+    assert.deepStrictEqual([...walkSync(missing)], []);
+    assert.throws(() => [...walkSync(missing, { suppressErrors: false })], { code: 'ENOENT' });
+  });
+
+  test('should reject async filters', () => {
+    assert.throws(
+      () => [...walkSync(TMP_DIR, { include: async () => true })],
+      /walkSync filters must return a boolean, not a Promise/
+    );
+  });
+});